@@ -4,7 +4,9 @@
  * The _fields parameter allows you to limit which fields are returned
  * from the WordPress REST API, reducing response size and improving performance.
  *
- * This example demonstrates the correct usage after the _fields bug fix.
+ * Literal _fields lists also narrow the response type: requesting
+ * ["id", "title"] returns items typed as Pick<WPPost, "id" | "title">, so
+ * reading a field that was not requested is a compile error.
  */
 
 import { createPostsEndpoints } from "../src";
@@ -21,30 +23,44 @@ async function fieldsOptimizationExample() {
     _fields: ["id", "title", "excerpt"],
   });
   console.log(`Fetched ${postsResult.items.length} posts with minimal data`);
+  console.log(postsResult.items[0]?.excerpt.rendered);
+  // postsResult.items[0].content -> type error: content was not requested
   // Result: ?per_page=10&_fields=id,title,excerpt
 
-  // Example 2: Fetch nested fields (meta fields, author data)
+  // Example 2: Fetch nested fields (rendered title, a single meta field)
   console.log("\nExample 2: Fetch nested fields");
   const postsWithMeta = await posts.list({
-    _fields: ["id", "title", "meta.custom_field", "author.name"],
+    _fields: ["id", "title.rendered", "meta.custom_field"],
     per_page: 5,
   });
-  // Result: ?_fields=id,title,meta.custom_field,author.name&per_page=5
+  for (const post of postsWithMeta.items) {
+    // Typed as { id: number; title: { rendered: string }; meta: { custom_field: any } }
+    console.log(post.id, post.title.rendered, post.meta.custom_field);
+  }
+  // Result: ?_fields=id,title.rendered,meta.custom_field&per_page=5
 
   // Example 3: Combine with _embed for related resources
   console.log("\nExample 3: Combine _fields with _embed");
   const postsWithFeaturedImage = await posts.list({
     _embed: true,
-    _fields: ["id", "title", "_embedded.wp:featuredmedia", "_embedded.author"],
+    _fields: [
+      "id",
+      "title",
+      "_links",
+      "_embedded.wp:featuredmedia",
+      "_embedded.author",
+    ],
     per_page: 5,
   });
-  // Result: ?_embed=true&_fields=id,title,_embedded.wp:featuredmedia,_embedded.author&per_page=5
+  console.log(postsWithFeaturedImage.items[0]?._embedded?.author);
+  // _links is required for WordPress to embed the linked resources
+  // Result: ?_embed=true&_fields=id,title,_links,_embedded.wp:featuredmedia,_embedded.author&per_page=5
 
   // Example 4: Single post with specific fields
   console.log("\nExample 4: Single post with specific fields");
-  const post = await posts.get(1, "view", false);
-  // Note: _fields parameter is supported in list() but not in individual get()
-  // For single posts, WordPress returns all fields by default
+  const post = await posts.get(1, { _fields: ["id", "title", "link"] });
+  console.log(post.title.rendered, post.link);
+  // Result: /wp/v2/posts/1?_fields=id,title,link
 
   // Example 5: Optimize for search results
   console.log("\nExample 5: Optimize search results");
@@ -62,7 +78,7 @@ async function fieldsOptimizationExample() {
     _fields: ["id"],
     per_page: 100,
   });
-  const ids = postIds.items.map((post: any) => post.id);
+  const ids = postIds.items.map((post) => post.id);
   console.log(`Retrieved ${ids.length} post IDs`);
   // Result: ?_fields=id&per_page=100
 
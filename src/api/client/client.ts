@@ -0,0 +1,78 @@
+import type { WPEndpointsConfig } from "../wordpress/types";
+import { createPostsEndpoints } from "../wordpress/posts";
+import { createPageEndpoints } from "../wordpress/pages";
+import { createMediaEndpoints } from "../wordpress/media";
+import { createCommentsEndpoints } from "../wordpress/comments";
+import { createCategoryEndpoints } from "../wordpress/categories";
+import { createTagsEndpoints } from "../wordpress/tags";
+import { createTaxonomiesEndpoints } from "../wordpress/taxonomies";
+import { createUsersEndpoints } from "../wordpress/users";
+import { createMenuEndpoints } from "../wordpress/menus";
+import { createSettingsEndpoints } from "../wordpress/settings";
+import { createPostTypesEndpoints } from "../wordpress/post-types";
+import { createPostStatusesEndpoints } from "../wordpress/post-statuses";
+import { createBatch } from "../wordpress/batch";
+import { createDiscoveryEndpoints } from "../wordpress/discovery";
+import { createLinkEndpoints } from "../wordpress/links";
+import { createYoastEndpoints } from "../plugins/yoast";
+import type { WordPressClient, WordPressClientConfig } from "./types";
+
+/**
+ * Create a WordPress client with every endpoint factory built from one config
+ * @param config Shared config (baseUrl, auth, defaults) plus optional plugin namespaces
+ * @returns Typed client exposing `posts`, `pages`, `menus.items`, `plugins.yoast`, ...
+ * @example
+ * const wp = createWordPressClient({
+ *   baseUrl: "https://example.com/wp-json",
+ *   auth: createAuth({ method: "basic", credentials }),
+ *   defaults: { context: "edit", headers: { "X-Client": "dashboard" } },
+ * });
+ *
+ * const { items } = await wp.posts.list({ per_page: 5 });
+ * const head = await wp.plugins.yoast.head({ route: "/" });
+ *
+ * // Add a custom plugin namespace
+ * const wpWithAcf = createWordPressClient({
+ *   baseUrl: "https://example.com/wp-json",
+ *   plugins: { acf: (config) => createAcfEndpoints(config) },
+ * });
+ * await wpWithAcf.plugins.acf.options();
+ */
+export const createWordPressClient = <
+  TPlugins extends Record<string, unknown> = {}
+>(
+  config: WordPressClientConfig<TPlugins>
+): WordPressClient<TPlugins> => {
+  const { plugins, siteBaseUrl, ...shared } = config;
+  const endpointsConfig: WPEndpointsConfig = shared;
+
+  const customPlugins = Object.fromEntries(
+    Object.entries(plugins || {}).map(([name, factory]) => [
+      name,
+      factory(endpointsConfig),
+    ])
+  ) as TPlugins;
+
+  return {
+    config: endpointsConfig,
+    posts: createPostsEndpoints(endpointsConfig),
+    pages: createPageEndpoints(endpointsConfig),
+    media: createMediaEndpoints(endpointsConfig),
+    comments: createCommentsEndpoints(endpointsConfig),
+    categories: createCategoryEndpoints(endpointsConfig),
+    tags: createTagsEndpoints(endpointsConfig),
+    taxonomies: createTaxonomiesEndpoints(endpointsConfig),
+    users: createUsersEndpoints(endpointsConfig),
+    menus: createMenuEndpoints(endpointsConfig),
+    settings: createSettingsEndpoints(endpointsConfig),
+    postTypes: createPostTypesEndpoints(endpointsConfig),
+    postStatuses: createPostStatusesEndpoints(endpointsConfig),
+    discovery: createDiscoveryEndpoints(endpointsConfig),
+    links: createLinkEndpoints(endpointsConfig),
+    batch: (options) => createBatch(endpointsConfig, options),
+    plugins: {
+      yoast: createYoastEndpoints({ ...endpointsConfig, siteBaseUrl }),
+      ...customPlugins,
+    },
+  };
+};
@@ -0,0 +1,80 @@
+import type { WPEndpointsConfig } from "../wordpress/types";
+import type { createPostsEndpoints } from "../wordpress/posts";
+import type { createPageEndpoints } from "../wordpress/pages";
+import type { createMediaEndpoints } from "../wordpress/media";
+import type { createCommentsEndpoints } from "../wordpress/comments";
+import type { createCategoryEndpoints } from "../wordpress/categories";
+import type { createTagsEndpoints } from "../wordpress/tags";
+import type { createTaxonomiesEndpoints } from "../wordpress/taxonomies";
+import type { createUsersEndpoints } from "../wordpress/users";
+import type { createMenuEndpoints } from "../wordpress/menus";
+import type { createSettingsEndpoints } from "../wordpress/settings";
+import type { createPostTypesEndpoints } from "../wordpress/post-types";
+import type { createPostStatusesEndpoints } from "../wordpress/post-statuses";
+import type { WPBatch, WPBatchOptions } from "../wordpress/batch";
+import type { createDiscoveryEndpoints } from "../wordpress/discovery";
+import type { createLinkEndpoints } from "../wordpress/links";
+import type { createYoastEndpoints } from "../plugins/yoast";
+
+/**
+ * Factory for a plugin namespace, built from the client's shared config
+ */
+export type WPPluginFactory<T = unknown> = (config: WPEndpointsConfig) => T;
+
+/**
+ * Configuration for createWordPressClient()
+ */
+export interface WordPressClientConfig<
+  TPlugins extends Record<string, unknown> = {}
+> extends WPEndpointsConfig {
+  /**
+   * Optional site base URL used by plugins that fetch non-REST resources
+   * (e.g., Yoast sitemaps). Defaults to baseUrl without /wp-json.
+   */
+  siteBaseUrl?: string;
+  /**
+   * Extra plugin namespaces exposed under `client.plugins`.
+   */
+  plugins?: { [K in keyof TPlugins]: WPPluginFactory<TPlugins[K]> };
+}
+
+/**
+ * Built-in plugin namespaces
+ */
+export interface WPBuiltInPlugins {
+  yoast: ReturnType<typeof createYoastEndpoints>;
+}
+
+/**
+ * Unified WordPress client with every endpoint factory wired to one config
+ */
+export interface WordPressClient<
+  TPlugins extends Record<string, unknown> = {}
+> {
+  /**
+   * Shared config every namespace was built from
+   */
+  config: WPEndpointsConfig;
+  posts: ReturnType<typeof createPostsEndpoints>;
+  pages: ReturnType<typeof createPageEndpoints>;
+  media: ReturnType<typeof createMediaEndpoints>;
+  comments: ReturnType<typeof createCommentsEndpoints>;
+  categories: ReturnType<typeof createCategoryEndpoints>;
+  tags: ReturnType<typeof createTagsEndpoints>;
+  taxonomies: ReturnType<typeof createTaxonomiesEndpoints>;
+  users: ReturnType<typeof createUsersEndpoints>;
+  menus: ReturnType<typeof createMenuEndpoints>;
+  settings: ReturnType<typeof createSettingsEndpoints>;
+  postTypes: ReturnType<typeof createPostTypesEndpoints>;
+  postStatuses: ReturnType<typeof createPostStatusesEndpoints>;
+  discovery: ReturnType<typeof createDiscoveryEndpoints>;
+  /**
+   * Follow HAL `_links` relations (author, wp:featuredmedia, replies, wp:term, ...)
+   */
+  links: ReturnType<typeof createLinkEndpoints>;
+  /**
+   * Start a batch of writes sent through /batch/v1 (WordPress 5.6+)
+   */
+  batch: (options?: WPBatchOptions) => WPBatch;
+  plugins: WPBuiltInPlugins & TPlugins;
+}
@@ -1,2 +1,3 @@
 export * from "./wordpress";
 export * from "./plugins";
+export * from "./client";
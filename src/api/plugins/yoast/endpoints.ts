@@ -1,16 +1,13 @@
-import type { AuthResponse } from "../../../auth";
-import { apiGet } from "../../wordpress/http";
-import type { RequestOptions } from "../../wordpress/types";
+import { createApiClient } from "../../wordpress/http";
+import type {
+  RequestOptions,
+  WPEndpointsConfig,
+} from "../../wordpress/types";
 import type { WPYoastHeadResponse } from "./types";
 
 const YOAST_GET_HEAD_PATH = "/yoast/v1/get_head";
 
-interface YoastEndpointsConfig {
-  /**
-   * WordPress REST base URL (e.g., https://site.com/wp-json).
-   */
-  baseUrl: string;
-  auth?: AuthResponse;
+interface YoastEndpointsConfig extends WPEndpointsConfig {
   /**
    * Optional site base URL used to resolve sitemap URLs.
    * Defaults to baseUrl without the trailing /wp-json segment.
@@ -42,12 +39,22 @@ const stripWpJson = (restBase: string): string => {
   }
 };
 
-export const createYoastEndpoints = ({
-  baseUrl,
-  auth,
-  siteBaseUrl,
-}: YoastEndpointsConfig) => {
-  const resolvedSiteBase = siteBaseUrl || stripWpJson(baseUrl);
+export const createYoastEndpoints = (config: YoastEndpointsConfig) => {
+  const api = createApiClient(config);
+  const resolvedSiteBase = config.siteBaseUrl || stripWpJson(config.baseUrl);
+  /**
+   * Fetch a sitemap through the client pipeline (middleware, timeout, retries, errors),
+   * without REST query defaults or credentials since sitemaps are public pages
+   */
+  const fetchXml = async (url: string, options?: RequestOptions) => {
+    const { origin, pathname, search } = new URL(url);
+    const siteApi = createApiClient({ ...config, baseUrl: origin });
+    const response = await siteApi.request(
+      { path: `${pathname}${search}` },
+      { ...options, auth: false, queryDefaults: false }
+    );
+    return response.text();
+  };
 
   return {
     /**
@@ -58,21 +65,17 @@ export const createYoastEndpoints = ({
       params?: YoastGetHeadParams,
       options?: RequestOptions
     ): Promise<WPYoastHeadResponse> => {
-      return apiGet<WPYoastHeadResponse>(
-        baseUrl,
+      return api.get<WPYoastHeadResponse>(
         YOAST_GET_HEAD_PATH,
         params,
-        auth,
-        options?.signal
+        { queryDefaults: false, ...options }
       );
     },
     /**
      * Fetch the Yoast sitemap index XML (public endpoint, not REST).
      */
     sitemapIndex: async (options?: RequestOptions): Promise<string> => {
-      const url = `${resolvedSiteBase}/sitemap_index.xml`;
-      const response = await fetch(url, { signal: options?.signal });
-      return response.text();
+      return fetchXml(`${resolvedSiteBase}/sitemap_index.xml`, options);
     },
     /**
      * Fetch a specific sitemap XML by path (e.g., "post-sitemap.xml" or "/category-sitemap.xml").
@@ -85,8 +88,7 @@ export const createYoastEndpoints = ({
       const url = normalized.startsWith("http")
         ? normalized
         : `${resolvedSiteBase}${normalized}`;
-      const response = await fetch(url, { signal: options?.signal });
-      return response.text();
+      return fetchXml(url, options);
     },
   };
 };
@@ -1,28 +1,19 @@
-import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
 import { apiGet, apiPost, apiPut, apiDelete } from "./http";
 
 describe("AbortController Support", () => {
   const baseUrl = "https://example.com/wp-json";
   const path = "/wp/v2/posts";
 
-  beforeEach(() => {
-    // Mock fetch
-    global.fetch = vi.fn();
-  });
-
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
+  mockGlobalFetch();
 
   describe("apiGet", () => {
     it("should pass signal to fetch", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ id: 1, title: "Test" }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ id: 1, title: "Test" })
+      );
 
       await apiGet(baseUrl, path, {}, undefined, controller.signal);
 
@@ -35,12 +26,9 @@ describe("AbortController Support", () => {
     });
 
     it("should work without signal", async () => {
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ id: 1, title: "Test" }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ id: 1, title: "Test" })
+      );
 
       await apiGet(baseUrl, path, {});
 
@@ -70,12 +58,9 @@ describe("AbortController Support", () => {
   describe("apiPost", () => {
     it("should pass signal to fetch", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ id: 1, title: "Created" }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ id: 1, title: "Created" })
+      );
 
       await apiPost(
         baseUrl,
@@ -98,12 +83,9 @@ describe("AbortController Support", () => {
   describe("apiPut", () => {
     it("should pass signal to fetch", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ id: 1, title: "Updated" }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ id: 1, title: "Updated" })
+      );
 
       await apiPut(
         baseUrl,
@@ -125,12 +107,9 @@ describe("AbortController Support", () => {
   describe("apiDelete", () => {
     it("should pass signal to fetch", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ deleted: true }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ deleted: true })
+      );
 
       await apiDelete(baseUrl, path, {}, undefined, controller.signal);
 
@@ -167,12 +146,9 @@ describe("AbortController Support", () => {
 
     it("should allow multiple requests with same controller", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ data: "test" }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ data: "test" })
+      );
 
       // Make multiple requests
       await Promise.all([
@@ -185,12 +161,9 @@ describe("AbortController Support", () => {
 
     it("should handle abort after request completes", async () => {
       const controller = new AbortController();
-      const mockResponse = {
-        ok: true,
-        json: async () => ({ id: 1 }),
-      };
-
-      (global.fetch as any).mockResolvedValue(mockResponse);
+      (global.fetch as any).mockImplementation(async () =>
+        jsonResponse({ id: 1 })
+      );
 
       const result = await apiGet(
         baseUrl,
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createUsersEndpoints } from "./users";
+
+describe("Application Passwords", () => {
+  const users = createUsersEndpoints({
+    baseUrl: "https://example.com/wp-json",
+  });
+
+  mockGlobalFetch();
+
+  it("should create an application password for a user", async () => {
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ uuid: "abc", name: "Mobile app", password: "secret" })
+    );
+
+    const created = await users.applicationPasswords.create(5, {
+      name: "Mobile app",
+    });
+
+    expect(created.password).toBe("secret");
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(
+      "https://example.com/wp-json/wp/v2/users/5/application-passwords"
+    );
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toEqual({ name: "Mobile app" });
+  });
+
+  it("should introspect and revoke the current password", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ uuid: "abc" })
+    );
+
+    const current = await users.applicationPasswords.introspect();
+    await users.applicationPasswords.delete("me", current.uuid);
+
+    const calls = (global.fetch as any).mock.calls;
+    expect(calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/users/me/application-passwords/introspect"
+    );
+    expect(calls[1][0]).toBe(
+      "https://example.com/wp-json/wp/v2/users/me/application-passwords/abc"
+    );
+    expect(calls[1][1].method).toBe("DELETE");
+  });
+});
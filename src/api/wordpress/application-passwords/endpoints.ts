@@ -0,0 +1,153 @@
+import type {
+  WPApplicationPassword,
+  WPApplicationPasswordCreate,
+  WPApplicationPasswordCreated,
+  WPApplicationPasswordDeleteResponse,
+  WPApplicationPasswordUpdate,
+  WPApplicationPasswordUser,
+  RequestOptions,
+} from "./types";
+import { WPContext, WPEndpointsConfig } from "../types";
+import { createApiClient, buildResourcePath } from "../http";
+
+/**
+ * Base path for WordPress users API endpoints
+ */
+const USERS_PATH = "/wp/v2/users";
+
+/**
+ * Application Passwords API endpoints (/wp/v2/users/<id>/application-passwords)
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ */
+export const createApplicationPasswordEndpoints = (
+  config: WPEndpointsConfig
+) => {
+  const api = createApiClient(config);
+  const basePath = (user: WPApplicationPasswordUser) =>
+    `${USERS_PATH}/${user}/application-passwords`;
+
+  return {
+    /**
+     * Get the application passwords of a user
+     * @param user The user ID, or "me" for the current user
+     * @param context Optional context to determine fields in response
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the application passwords (without the passwords themselves)
+     */
+    list: async (
+      user: WPApplicationPasswordUser,
+      context?: WPContext,
+      options?: RequestOptions
+    ): Promise<WPApplicationPassword[]> => {
+      return api.get<WPApplicationPassword[]>(
+        basePath(user),
+        { context },
+        { queryDefaults: false, ...options }
+      );
+    },
+
+    /**
+     * Get a single application password
+     * @param user The user ID, or "me" for the current user
+     * @param uuid The application password UUID
+     * @param context Optional context to determine fields in response
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the application password data
+     */
+    get: async (
+      user: WPApplicationPasswordUser,
+      uuid: string,
+      context?: WPContext,
+      options?: RequestOptions
+    ): Promise<WPApplicationPassword> => {
+      return api.get<WPApplicationPassword>(
+        buildResourcePath(basePath(user), uuid),
+        { context },
+        { queryDefaults: false, ...options }
+      );
+    },
+
+    /**
+     * Create an application password
+     * @param user The user ID, or "me" for the current user
+     * @param data The application name and optional app_id
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the application password, including the generated `password`
+     * @example
+     * const { password } = await wp.users.applicationPasswords.create("me", {
+     *   name: "Mobile app",
+     * });
+     */
+    create: async (
+      user: WPApplicationPasswordUser,
+      data: WPApplicationPasswordCreate,
+      options?: RequestOptions
+    ): Promise<WPApplicationPasswordCreated> => {
+      return api.post<WPApplicationPasswordCreated>(
+        basePath(user),
+        data,
+        options
+      );
+    },
+
+    /**
+     * Update an application password
+     * @param user The user ID, or "me" for the current user
+     * @param uuid The application password UUID
+     * @param data The data to update
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the updated application password data
+     */
+    update: async (
+      user: WPApplicationPasswordUser,
+      uuid: string,
+      data: WPApplicationPasswordUpdate,
+      options?: RequestOptions
+    ): Promise<WPApplicationPassword> => {
+      return api.put<WPApplicationPassword>(
+        buildResourcePath(basePath(user), uuid),
+        data,
+        options
+      );
+    },
+
+    /**
+     * Revoke an application password
+     * @param user The user ID, or "me" for the current user
+     * @param uuid The application password UUID
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the deletion result and the revoked application password
+     */
+    delete: async (
+      user: WPApplicationPasswordUser,
+      uuid: string,
+      options?: RequestOptions
+    ): Promise<WPApplicationPasswordDeleteResponse> => {
+      return api.delete<WPApplicationPasswordDeleteResponse>(
+        buildResourcePath(basePath(user), uuid),
+        undefined,
+        options
+      );
+    },
+
+    /**
+     * Get the application password used to authenticate the current request
+     * @param user The user ID, or "me" for the current user
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the application password data
+     * @example
+     * const current = await wp.users.applicationPasswords.introspect();
+     * await wp.users.applicationPasswords.delete("me", current.uuid); // log out
+     */
+    introspect: async (
+      user: WPApplicationPasswordUser = "me",
+      options?: RequestOptions
+    ): Promise<WPApplicationPassword> => {
+      return api.get<WPApplicationPassword>(
+        `${basePath(user)}/introspect`,
+        {},
+        { queryDefaults: false, ...options }
+      );
+    },
+  };
+};
@@ -0,0 +1,69 @@
+export type { RequestOptions } from "../types";
+
+/**
+ * User an application password belongs to: a user ID or "me" for the current user
+ */
+export type WPApplicationPasswordUser = number | "me";
+
+// GET response type
+export interface WPApplicationPassword {
+  /**
+   * The unique identifier for the application password.
+   */
+  uuid: string;
+  /**
+   * A UUID provided by the application to uniquely identify it.
+   */
+  app_id: string;
+  /**
+   * The name of the application password.
+   */
+  name: string;
+  /**
+   * The GMT date the application password was created.
+   */
+  created: string;
+  /**
+   * The GMT date the application password was last used.
+   */
+  last_used: string | null;
+  /**
+   * The IP address the application password was last used by.
+   */
+  last_ip: string | null;
+}
+
+// POST response type
+export interface WPApplicationPasswordCreated extends WPApplicationPassword {
+  /**
+   * The generated password. Only returned on creation and cannot be retrieved later.
+   */
+  password: string;
+}
+
+// POST parameters for creating an application password
+export interface WPApplicationPasswordCreate {
+  /**
+   * The name of the application password.
+   */
+  name: string;
+  /**
+   * A UUID provided by the application to uniquely identify it.
+   */
+  app_id?: string;
+}
+
+// POST parameters for updating an application password
+export type WPApplicationPasswordUpdate = Partial<WPApplicationPasswordCreate>;
+
+// DELETE response type
+export interface WPApplicationPasswordDeleteResponse {
+  /**
+   * Whether the application password was deleted.
+   */
+  deleted: boolean;
+  /**
+   * The application password as it was before deletion.
+   */
+  previous: WPApplicationPassword;
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createPageEndpoints } from "./pages";
+import { createPostsEndpoints } from "./posts";
+import { isAutosaveNewer } from "./autosaves";
+import type { WPAutosave } from "./autosaves";
+
+const autosave = (id: number, author: number, modified_gmt: string) =>
+  ({ id, author, parent: 123, modified_gmt } as WPAutosave);
+
+describe("Autosaves", () => {
+  const config = { baseUrl: "https://example.com/wp-json" };
+  const posts = createPostsEndpoints(config);
+
+  mockGlobalFetch();
+
+  it("should create an autosave for a page", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 9 }));
+    const pages = createPageEndpoints(config);
+
+    const result = await pages.createAutosave(42, { content: "Unsaved" });
+
+    expect(result.id).toBe(9);
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/pages/42/autosaves");
+    expect(init.method).toBe("POST");
+    expect(JSON.parse(init.body)).toEqual({ content: "Unsaved" });
+  });
+
+  it("should get the latest autosave of a user", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse([
+        autosave(7, 1, "2024-05-01T10:00:00"),
+        autosave(8, 2, "2024-05-02T10:00:00"),
+      ])
+    );
+
+    const latest = await posts.getLatestAutosave(123);
+    const mine = await posts.getLatestAutosave(123, 1);
+
+    expect(latest?.id).toBe(8);
+    expect(mine?.id).toBe(7);
+    expect(await posts.getLatestAutosave(123, 3)).toBeUndefined();
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/posts/123/autosaves?context=edit"
+    );
+  });
+
+  it("should only return an autosave newer than the saved post", async () => {
+    const saved = (modified_gmt: string) =>
+      (global.fetch as any).mockImplementation(async (url: string) =>
+        jsonResponse(
+          url.includes("/autosaves")
+            ? [autosave(7, 1, "2024-05-01T10:00:00")]
+            : { id: 123, modified_gmt }
+        )
+      );
+
+    saved("2024-05-01T09:00:00");
+    expect((await posts.getNewerAutosave(123))?.id).toBe(7);
+
+    saved("2024-05-01T11:00:00");
+    expect(await posts.getNewerAutosave(123)).toBeUndefined();
+  });
+
+  it("should compare GMT dates", () => {
+    expect(
+      isAutosaveNewer(
+        { modified_gmt: "2024-05-01T10:00:01" },
+        { modified_gmt: "2024-05-01T10:00:00" }
+      )
+    ).toBe(true);
+    expect(
+      isAutosaveNewer(
+        { modified_gmt: "2024-05-01T10:00:00" },
+        { modified_gmt: "2024-05-01T10:00:00" }
+      )
+    ).toBe(false);
+  });
+});
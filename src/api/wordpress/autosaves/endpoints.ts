@@ -0,0 +1,163 @@
+import type {
+  WPAutosave,
+  WPAutosaveCreate,
+  WPAutosaveParent,
+  RequestOptions,
+} from "./types";
+import { WPContext, WPEndpointsConfig } from "../types";
+import { createApiClient, buildResourcePath } from "../http";
+
+/**
+ * Parse a WordPress `*_gmt` date, which carries no timezone designator
+ */
+const gmtTime = (date: string) =>
+  Date.parse(/(Z|[+-]\d{2}:\d{2})$/.test(date) ? date : `${date}Z`);
+
+/**
+ * Check whether an autosave holds changes made after the item was last saved
+ * @param autosave The autosave to check
+ * @param parent The saved post or page (only `modified_gmt` is read)
+ * @example
+ * if (autosave && isAutosaveNewer(autosave, post)) {
+ *   showRestorePrompt(autosave);
+ * }
+ */
+export function isAutosaveNewer(
+  autosave: Pick<WPAutosave, "modified_gmt">,
+  parent: Pick<WPAutosaveParent, "modified_gmt">
+): boolean {
+  return gmtTime(autosave.modified_gmt) > gmtTime(parent.modified_gmt);
+}
+
+/**
+ * Autosave endpoints for a post type (e.g., /wp/v2/posts/<id>/autosaves)
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ * @param basePath Collection path of the parent resource (e.g., "/wp/v2/posts")
+ */
+export const createAutosaveEndpoints = (
+  config: WPEndpointsConfig,
+  basePath: string
+) => {
+  const api = createApiClient(config);
+  const autosavesPath = (parentId: number) =>
+    `${basePath}/${parentId}/autosaves`;
+
+  const endpoints = {
+    /**
+     * Get the autosaves of an item. WordPress keeps at most one autosave per user.
+     * @param parentId The post or page ID
+     * @param context Optional context; "edit" includes raw title, content and excerpt
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the autosaves
+     */
+    listAutosaves: async (
+      parentId: number,
+      context?: WPContext,
+      options?: RequestOptions
+    ): Promise<WPAutosave[]> => {
+      return api.get<WPAutosave[]>(
+        autosavesPath(parentId),
+        { context },
+        { queryDefaults: false, ...options }
+      );
+    },
+
+    /**
+     * Get a single autosave
+     * @param parentId The post or page ID
+     * @param autosaveId The autosave ID
+     * @param context Optional context; "edit" includes raw title, content and excerpt
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the autosave data
+     */
+    getAutosave: async (
+      parentId: number,
+      autosaveId: number,
+      context?: WPContext,
+      options?: RequestOptions
+    ): Promise<WPAutosave> => {
+      return api.get<WPAutosave>(
+        buildResourcePath(autosavesPath(parentId), autosaveId),
+        { context },
+        { queryDefaults: false, ...options }
+      );
+    },
+
+    /**
+     * Autosave unsaved changes of an item.
+     * For drafts edited by their own author, WordPress updates the draft itself instead.
+     * @param parentId The post or page ID
+     * @param data The title, content, excerpt and meta to autosave
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the autosave
+     * @example
+     * await wp.posts.createAutosave(123, { title, content });
+     */
+    createAutosave: async (
+      parentId: number,
+      data: WPAutosaveCreate,
+      options?: RequestOptions
+    ): Promise<WPAutosave> => {
+      return api.post<WPAutosave>(autosavesPath(parentId), data, options);
+    },
+
+    /**
+     * Get the most recent autosave of an item, optionally for a single user
+     * @param parentId The post or page ID
+     * @param author Optional user ID to only consider that user's autosave
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the autosave (edit context), or undefined when there is none
+     */
+    getLatestAutosave: async (
+      parentId: number,
+      author?: number,
+      options?: RequestOptions
+    ): Promise<WPAutosave | undefined> => {
+      const autosaves = await endpoints.listAutosaves(
+        parentId,
+        "edit",
+        options
+      );
+      return autosaves
+        .filter(
+          (autosave) => author === undefined || autosave.author === author
+        )
+        .reduce<WPAutosave | undefined>(
+          (latest, autosave) =>
+            !latest || isAutosaveNewer(autosave, latest) ? autosave : latest,
+          undefined
+        );
+    },
+
+    /**
+     * Get the latest autosave only if it is newer than the saved item,
+     * i.e. when there are unsaved changes to offer for restoring
+     * @param parentId The post or page ID
+     * @param author Optional user ID to only consider that user's autosave
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the autosave (edit context), or undefined when the item is up to date
+     * @example
+     * const unsaved = await wp.posts.getNewerAutosave(123, currentUser.id);
+     * if (unsaved) {
+     *   editor.offerRestore(unsaved.content.raw);
+     * }
+     */
+    getNewerAutosave: async (
+      parentId: number,
+      author?: number,
+      options?: RequestOptions
+    ): Promise<WPAutosave | undefined> => {
+      const [parent, latest] = await Promise.all([
+        api.get<WPAutosaveParent>(
+          buildResourcePath(basePath, parentId),
+          { context: "edit", _fields: ["id", "modified_gmt"] },
+          { queryDefaults: false, ...options }
+        ),
+        endpoints.getLatestAutosave(parentId, author, options),
+      ]);
+      return latest && isAutosaveNewer(latest, parent) ? latest : undefined;
+    },
+  };
+
+  return endpoints;
+};
@@ -0,0 +1,39 @@
+import type { WPRevision } from "../revisions/types";
+
+export type { RequestOptions } from "../types";
+
+// GET response type
+export interface WPAutosave extends WPRevision {
+  /**
+   * Preview link for the autosave.
+   */
+  preview_link?: string;
+}
+
+// POST parameters for creating an autosave
+export interface WPAutosaveCreate {
+  /**
+   * The title for the object.
+   */
+  title?: string;
+  /**
+   * The content for the object.
+   */
+  content?: string;
+  /**
+   * The excerpt for the object.
+   */
+  excerpt?: string;
+  /**
+   * Meta fields.
+   */
+  meta?: Record<string, any>;
+}
+
+/**
+ * Minimal shape of the saved item an autosave is compared against
+ */
+export interface WPAutosaveParent {
+  id: number;
+  modified_gmt: string;
+}
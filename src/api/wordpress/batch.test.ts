@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { mockGlobalFetch } from "../../../tests/helpers";
+import { createBatch } from "./batch";
+import { WPApiError } from "./errors";
+
+const batchResponse = (responses: unknown[], failed?: string) =>
+  new Response(JSON.stringify({ ...(failed && { failed }), responses }), {
+    status: 207,
+    headers: { "content-type": "application/json" },
+  });
+
+describe("createBatch", () => {
+  const baseUrl = "https://example.com/wp-json";
+  const auth = { headers: { Authorization: "Bearer token" } };
+
+  mockGlobalFetch();
+
+  it("should send queued writes as one /batch/v1 request", async () => {
+    (global.fetch as any).mockResolvedValue(
+      batchResponse([
+        { status: 200, headers: {}, body: { id: 1, status: "publish" } },
+        { status: 200, headers: {}, body: { deleted: true } },
+      ])
+    );
+    const batch = createBatch({ baseUrl, auth });
+
+    const updated = batch.posts.update(1, { status: "publish" });
+    batch.tags.delete(12, true);
+    const results = await batch.run();
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/batch/v1");
+    expect(init.headers.Authorization).toBe("Bearer token");
+    expect(JSON.parse(init.body)).toEqual({
+      validation: "normal",
+      requests: [
+        {
+          method: "PUT",
+          path: "/wp/v2/posts/1",
+          body: { status: "publish" },
+          headers: {},
+        },
+        { method: "DELETE", path: "/wp/v2/tags/12?force=true", headers: {} },
+      ],
+    });
+
+    expect(await updated).toEqual({ id: 1, status: "publish" });
+    expect(results.map((result) => result.ok)).toEqual([true, true]);
+  });
+
+  it("should wait for calls whose auth hooks are still running", async () => {
+    (global.fetch as any).mockResolvedValue(
+      batchResponse([{ status: 200, headers: {}, body: { id: 1 } }])
+    );
+    const headers: Record<string, string> = {};
+    const batch = createBatch({
+      baseUrl,
+      auth: {
+        headers,
+        // e.g., a JWT login before the first request
+        beforeRequest: async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          headers.Authorization = "Bearer jwt";
+        },
+      },
+    });
+
+    const updated = batch.posts.update(1, { title: "New" });
+    const results = await batch.run();
+
+    expect(results).toHaveLength(1);
+    expect(await updated).toEqual({ id: 1 });
+  });
+
+  it("should split operations into chunks of maxBatchSize", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        batchResponse([
+          { status: 201, headers: {}, body: { id: 1 } },
+          { status: 201, headers: {}, body: { id: 2 } },
+        ])
+      )
+      .mockResolvedValueOnce(
+        batchResponse([{ status: 201, headers: {}, body: { id: 3 } }])
+      );
+    const batch = createBatch({ baseUrl }, { maxBatchSize: 2 });
+
+    ["a", "b", "c"].forEach((name) =>
+      batch.categories.create({ name, slug: name, description: "" })
+    );
+    expect(await batch.run()).toHaveLength(3);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should return WPApiError results for failed operations", async () => {
+    (global.fetch as any).mockResolvedValue(
+      batchResponse(
+        [
+          null,
+          {
+            status: 400,
+            headers: {},
+            body: { code: "rest_invalid_param", message: "Invalid title" },
+          },
+        ],
+        "validation"
+      )
+    );
+    const batch = createBatch({ baseUrl }, { validation: "require-all-valid" });
+
+    const first = batch.posts.create({ title: "Valid", content: "" });
+    batch.posts.create({ title: "", content: "" });
+    const results = await batch.run();
+
+    expect(
+      JSON.parse((global.fetch as any).mock.calls[0][1].body)
+    ).toMatchObject({ validation: "require-all-valid" });
+    expect(results.every((result) => !result.ok)).toBe(true);
+    const [skipped, invalid] = results;
+    expect(!invalid.ok && invalid.error).toBeInstanceOf(WPApiError);
+    expect(!invalid.ok && invalid.error.code).toBe("rest_invalid_param");
+    expect(!skipped.ok && skipped.error.code).toBe("rest_batch_not_executed");
+    await expect(first).rejects.toBeInstanceOf(WPApiError);
+  });
+
+  it("should send GET requests immediately", async () => {
+    (global.fetch as any).mockResolvedValue(
+      new Response(JSON.stringify({ id: 1 }))
+    );
+    const batch = createBatch({ baseUrl });
+
+    expect(await batch.posts.get(1)).toEqual({ id: 1 });
+    expect(batch.size).toBe(0);
+  });
+});
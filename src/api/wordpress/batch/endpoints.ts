@@ -0,0 +1,297 @@
+import type {
+  WPBatch,
+  WPBatchOptions,
+  WPBatchRequest,
+  WPBatchResponse,
+  WPBatchResponseItem,
+  WPBatchResult,
+  RequestOptions,
+} from "./types";
+import { WPEndpointsConfig, WPFetch } from "../types";
+import { WPApiError, WPError } from "../errors";
+import { createApiClient, normalizeUrl, toHeaderRecord } from "../http";
+import { getAbortReason } from "../retry";
+import { createPostsEndpoints } from "../posts";
+import { createPageEndpoints } from "../pages";
+import { createCommentsEndpoints } from "../comments";
+import { createCategoryEndpoints } from "../categories";
+import { createTagsEndpoints } from "../tags";
+import { createUsersEndpoints } from "../users";
+import { createMenuEndpoints } from "../menus";
+
+/**
+ * Path of the WordPress batch endpoint (WordPress 5.6+)
+ */
+const BATCH_PATH = "/batch/v1";
+
+/**
+ * WordPress' default `max_batch_size`
+ */
+const DEFAULT_MAX_BATCH_SIZE = 25;
+
+/**
+ * Headers the batch request itself carries, so sub-requests do not repeat them
+ */
+const OMITTED_HEADERS = ["content-type", "x-http-method-override"];
+
+interface QueuedOperation {
+  request: WPBatchRequest;
+  resolve: (response: Response) => void;
+  reject: (error: unknown) => void;
+}
+
+const toResponse = (item: WPBatchResponseItem) =>
+  new Response(JSON.stringify(item.body), {
+    status: item.status,
+    headers: { "content-type": "application/json", ...item.headers },
+  });
+
+/**
+ * Sub-response for a request WordPress skipped because another one failed validation
+ */
+const notExecutedResponse = () =>
+  toResponse({
+    status: 400,
+    headers: {},
+    body: {
+      code: "rest_batch_not_executed",
+      message:
+        "Request not executed because another request in the batch failed validation.",
+      data: { status: 400 },
+    },
+  });
+
+async function toResult(
+  request: WPBatchRequest,
+  response: Response
+): Promise<WPBatchResult> {
+  if (response.ok) {
+    return {
+      ok: true,
+      status: response.status,
+      request,
+      data: await response.json(),
+    };
+  }
+
+  return {
+    ok: false,
+    status: response.status,
+    request,
+    error: await WPApiError.fromResponse(response),
+  };
+}
+
+/**
+ * Mark every promise returned by the endpoints as handled (failures are reported by run())
+ * and pass it to `track`
+ */
+function handleRejections<T>(
+  endpoints: T,
+  track: (call: Promise<unknown>) => void
+): T {
+  return Object.fromEntries(
+    Object.entries(endpoints as Record<string, unknown>).map(([key, value]) => {
+      if (typeof value === "function") {
+        return [
+          key,
+          (...args: unknown[]) => {
+            const result = value(...args);
+            if (result instanceof Promise) {
+              result.catch(() => undefined);
+              track(result);
+            }
+            return result;
+          },
+        ];
+      }
+      if (value && typeof value === "object") {
+        return [key, handleRejections(value, track)];
+      }
+      return [key, value];
+    })
+  ) as T;
+}
+
+/**
+ * Create a batch that queues create/update/delete calls and sends them to
+ * `POST /batch/v1` in chunks of `maxBatchSize`.
+ * Queued calls settle once run() sends their chunk: they resolve with the
+ * sub-response data or reject with a WPApiError. GET requests are sent immediately.
+ *
+ * @example
+ * const batch = createBatch(config, { validation: "require-all-valid" });
+ *
+ * for (const id of ids) {
+ *   batch.posts.update(id, { status: "publish" });
+ * }
+ * batch.tags.delete(12, true);
+ *
+ * const results = await batch.run();
+ * const failed = results.filter((result) => !result.ok);
+ */
+export const createBatch = (
+  config: WPEndpointsConfig,
+  options: WPBatchOptions = {}
+): WPBatch => {
+  const { validation = "normal", maxBatchSize = DEFAULT_MAX_BATCH_SIZE } =
+    options;
+  const api = createApiClient(config);
+  const restRoot = normalizeUrl(config.baseUrl, "/");
+  const omittedHeaders = [
+    ...OMITTED_HEADERS,
+    ...Object.keys(toHeaderRecord(config.auth?.headers)).map((name) =>
+      name.toLowerCase()
+    ),
+  ];
+  let queue: QueuedOperation[] = [];
+  // Endpoint calls that have not settled yet, and run() calls waiting for them to be queued
+  let activeCalls = 0;
+  let waiting: Array<() => void> = [];
+
+  /**
+   * Wake run() once every active call has reached the transport (auth hooks such as a
+   * JWT login or token-store read, and middleware, may take any number of ticks)
+   */
+  const notify = () => {
+    if (activeCalls > queue.length) return;
+    const resolvers = waiting;
+    waiting = [];
+    resolvers.forEach((resolve) => resolve());
+  };
+
+  const track = (call: Promise<unknown>) => {
+    activeCalls++;
+    const settle = () => {
+      activeCalls--;
+      notify();
+    };
+    call.then(settle, settle);
+  };
+
+  /**
+   * Transport that queues writes instead of sending them
+   */
+  const record: WPFetch = (url, init) => {
+    const headers = toHeaderRecord(init.headers);
+    const override = Object.entries(headers).find(
+      ([name]) => name.toLowerCase() === "x-http-method-override"
+    )?.[1];
+    const method = (override || init.method || "GET").toUpperCase();
+
+    if (method === "GET" || method === "HEAD") {
+      return (config.fetch ?? fetch)(url, init);
+    }
+    if (!url.startsWith(restRoot)) {
+      return Promise.reject(
+        new WPError(`Cannot batch a request outside the REST root: ${url}`)
+      );
+    }
+    if (init.body != null && typeof init.body !== "string") {
+      return Promise.reject(
+        new WPError("Only JSON requests can be batched (not multipart uploads)")
+      );
+    }
+
+    const body =
+      typeof init.body === "string" ? JSON.parse(init.body) : undefined;
+
+    return new Promise<Response>((resolve, reject) => {
+      const { signal } = init;
+      if (signal?.aborted) {
+        reject(getAbortReason(signal));
+        return;
+      }
+
+      const operation: QueuedOperation = {
+        request: {
+          method: method as WPBatchRequest["method"],
+          path: `/${url.slice(restRoot.length)}`,
+          body,
+          headers: Object.fromEntries(
+            Object.entries(headers).filter(
+              ([name]) => !omittedHeaders.includes(name.toLowerCase())
+            )
+          ),
+        },
+        resolve,
+        reject,
+      };
+
+      // Aborting a queued call drops it from the batch
+      signal?.addEventListener(
+        "abort",
+        () => {
+          const index = queue.indexOf(operation);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(getAbortReason(signal));
+          }
+        },
+        { once: true }
+      );
+
+      queue.push(operation);
+      notify();
+    });
+  };
+
+  // Queued requests wait for run(), so they must not be retried, rate limited or timed out
+  const batchConfig: WPEndpointsConfig = {
+    ...config,
+    fetch: record,
+    retry: false,
+    limiter: undefined,
+    timeout: undefined,
+  };
+
+  return {
+    config: batchConfig,
+    posts: handleRejections(createPostsEndpoints(batchConfig), track),
+    pages: handleRejections(createPageEndpoints(batchConfig), track),
+    comments: handleRejections(createCommentsEndpoints(batchConfig), track),
+    categories: handleRejections(createCategoryEndpoints(batchConfig), track),
+    tags: handleRejections(createTagsEndpoints(batchConfig), track),
+    users: handleRejections(createUsersEndpoints(batchConfig), track),
+    menus: handleRejections(createMenuEndpoints(batchConfig), track),
+
+    get size() {
+      return queue.length;
+    },
+
+    run: async (requestOptions?: RequestOptions): Promise<WPBatchResult[]> => {
+      if (activeCalls > queue.length) {
+        await new Promise<void>((resolve) => waiting.push(resolve));
+      }
+
+      const operations = queue;
+      queue = [];
+      const results: WPBatchResult[] = [];
+
+      for (let start = 0; start < operations.length; start += maxBatchSize) {
+        const chunk = operations.slice(start, start + maxBatchSize);
+
+        let response: WPBatchResponse;
+        try {
+          response = await api.post<WPBatchResponse>(
+            BATCH_PATH,
+            { validation, requests: chunk.map(({ request }) => request) },
+            requestOptions
+          );
+        } catch (error) {
+          operations.slice(start).forEach(({ reject }) => reject(error));
+          throw error;
+        }
+
+        for (const [index, operation] of chunk.entries()) {
+          const item = response.responses[index];
+          const subResponse = item ? toResponse(item) : notExecutedResponse();
+          results.push(await toResult(operation.request, subResponse.clone()));
+          operation.resolve(subResponse);
+        }
+      }
+
+      return results;
+    },
+  };
+};
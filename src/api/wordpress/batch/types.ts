@@ -0,0 +1,95 @@
+import type { WPApiError } from "../errors";
+import type { RequestOptions, WPEndpointsConfig } from "../types";
+import type { createPostsEndpoints } from "../posts";
+import type { createPageEndpoints } from "../pages";
+import type { createCommentsEndpoints } from "../comments";
+import type { createCategoryEndpoints } from "../categories";
+import type { createTagsEndpoints } from "../tags";
+import type { createUsersEndpoints } from "../users";
+import type { createMenuEndpoints } from "../menus";
+
+export type { RequestOptions } from "../types";
+
+/**
+ * How WordPress validates a batch: `require-all-valid` runs nothing unless every request validates
+ */
+export type WPBatchValidation = "normal" | "require-all-valid";
+
+/**
+ * Options for createBatch()
+ */
+export interface WPBatchOptions {
+  /**
+   * Validation mode sent with every chunk. Default: "normal"
+   */
+  validation?: WPBatchValidation;
+  /**
+   * Maximum sub-requests per /batch/v1 call; match the site's `max_batch_size`. Default: 25
+   */
+  maxBatchSize?: number;
+}
+
+/**
+ * Sub-request sent to /batch/v1
+ */
+export interface WPBatchRequest {
+  method: "POST" | "PUT" | "PATCH" | "DELETE";
+  /**
+   * Route relative to the REST root, including the query string (e.g., /wp/v2/posts/1?force=true)
+   */
+  path: string;
+  body?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Sub-response returned by /batch/v1
+ */
+export interface WPBatchResponseItem {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+/**
+ * Response body of POST /batch/v1. With `require-all-valid`, requests that passed
+ * validation are `null` when another request failed it.
+ */
+export interface WPBatchResponse {
+  failed?: "validation";
+  responses: Array<WPBatchResponseItem | null>;
+}
+
+/**
+ * Outcome of one queued operation
+ */
+export type WPBatchResult<T = unknown> =
+  | { ok: true; status: number; request: WPBatchRequest; data: T }
+  | { ok: false; status: number; request: WPBatchRequest; error: WPApiError };
+
+/**
+ * Batch returned by createBatch(); endpoint calls made through it are queued until run()
+ */
+export interface WPBatch {
+  /**
+   * Endpoints config whose writes are queued on this batch (for other factories)
+   */
+  config: WPEndpointsConfig;
+  posts: ReturnType<typeof createPostsEndpoints>;
+  pages: ReturnType<typeof createPageEndpoints>;
+  comments: ReturnType<typeof createCommentsEndpoints>;
+  categories: ReturnType<typeof createCategoryEndpoints>;
+  tags: ReturnType<typeof createTagsEndpoints>;
+  users: ReturnType<typeof createUsersEndpoints>;
+  menus: ReturnType<typeof createMenuEndpoints>;
+  /**
+   * Number of queued operations
+   */
+  readonly size: number;
+  /**
+   * Send every queued operation and settle the queued calls
+   * @param requestOptions Optional request options for the /batch/v1 calls
+   * @returns One result per operation, in queue order
+   */
+  run(requestOptions?: RequestOptions): Promise<WPBatchResult[]>;
+}
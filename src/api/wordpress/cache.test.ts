@@ -0,0 +1,195 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createMemoryCacheStore, createResponseCache } from "./cache";
+import { createPostsEndpoints } from "./posts";
+import { createUsersEndpoints } from "./users";
+import { createAuth } from "../../auth";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createMemoryCacheStore", () => {
+  const entry = (body: string) => ({
+    status: 200,
+    statusText: "OK",
+    headers: {},
+    body,
+    storedAt: Date.now(),
+  });
+
+  it("should evict the least recently used entry", () => {
+    const store = createMemoryCacheStore({ maxEntries: 2 });
+    store.set("a", entry("a"), 1000);
+    store.set("b", entry("b"), 1000);
+    store.get("a");
+    store.set("c", entry("c"), 1000);
+
+    expect(store.keys()).toEqual(["a", "c"]);
+  });
+
+  it("should drop expired entries", () => {
+    const store = createMemoryCacheStore();
+    store.set("a", entry("a"), -1);
+
+    expect(store.get("a")).toBeUndefined();
+  });
+});
+
+describe("createResponseCache", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  mockGlobalFetch();
+
+  it("should serve fresh GET responses from the cache", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse([{ id: 1 }], 200, {
+        "X-WP-Total": "1",
+        "X-WP-TotalPages": "1",
+      })
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      cache: createResponseCache(),
+    });
+
+    await posts.list();
+    const cached = await posts.list();
+
+    expect(cached.items).toEqual([{ id: 1 }]);
+    expect(cached.pagination.total).toBe(1);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    await posts.list({}, { cache: false });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should key entries on the auth identity", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    const cache = createResponseCache();
+    const auth = (token: string) => ({
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    await createPostsEndpoints({ baseUrl, cache, auth: auth("a") }).get(1);
+    await createPostsEndpoints({ baseUrl, cache, auth: auth("b") }).get(1);
+    await createPostsEndpoints({ baseUrl, cache, auth: auth("a") }).get(1);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should key entries on a SHA-256 of the identity, never the credentials", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    const store = createMemoryCacheStore();
+    const cache = createResponseCache({ store });
+
+    await createPostsEndpoints({
+      baseUrl,
+      cache,
+      auth: createAuth({ method: "bearer", credentials: { token: "s3cret" } }),
+    }).get(1);
+
+    const [key] = await store.keys();
+    expect(key).toMatch(/^[0-9a-f]{64} https:\/\/example\.com\//);
+    expect(key).not.toContain("s3cret");
+  });
+
+  it("should not serve responses signed by a provider to anonymous calls", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse([{ id: 1, status: "draft" }])
+    );
+    const cache = createResponseCache();
+    const posts = createPostsEndpoints({
+      baseUrl,
+      cache,
+      auth: createAuth({
+        method: "hmac",
+        credentials: { apiKey: "key-1", secret: "secret" },
+      }),
+    });
+
+    await posts.list({ status: "draft" });
+    await posts.list({ status: "draft" }, { auth: false });
+    await posts.list({ status: "draft" });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should revalidate stale entries with conditional headers", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        jsonResponse({ id: 1 }, 200, {
+          ETag: '"v1"',
+          "Last-Modified": "Wed, 21 Oct 2025 07:28:00 GMT",
+        })
+      )
+      .mockResolvedValueOnce(jsonResponse({}, 304));
+    const posts = createPostsEndpoints({
+      baseUrl,
+      cache: createResponseCache({ ttl: 0 }),
+    });
+
+    await posts.get(1);
+    const post = await posts.get(1);
+
+    expect(post).toEqual({ id: 1 });
+    const [, init] = (global.fetch as any).mock.calls[1];
+    expect(init.headers["If-None-Match"]).toBe('"v1"');
+    expect(init.headers["If-Modified-Since"]).toBe(
+      "Wed, 21 Oct 2025 07:28:00 GMT"
+    );
+  });
+
+  it("should serve stale entries while revalidating in the background", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(jsonResponse({ id: 1, title: "Old" }))
+      .mockResolvedValueOnce(jsonResponse({ id: 1, title: "New" }));
+    const posts = createPostsEndpoints({
+      baseUrl,
+      cache: createResponseCache({ ttl: 0, staleWhileRevalidate: 60_000 }),
+    });
+
+    await posts.get(1);
+    expect(await posts.get(1)).toMatchObject({ title: "Old" });
+
+    await flush();
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(await posts.get(1)).toMatchObject({ title: "New" });
+  });
+
+  it("should invalidate collection and item entries after a write", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    const cache = createResponseCache();
+    const posts = createPostsEndpoints({ baseUrl, cache });
+
+    await posts.list({ search: "a" });
+    await posts.get(1);
+    await posts.get(2);
+    await posts.update(1, { title: "Updated" });
+    (global.fetch as any).mockClear();
+
+    await posts.list({ search: "a" });
+    await posts.get(1);
+    await posts.get(2);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should invalidate the collection after a write to a non-numeric ID", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse([{ uuid: "u-1" }])
+    );
+    const cache = createResponseCache();
+    const { applicationPasswords } = createUsersEndpoints({ baseUrl, cache });
+
+    await applicationPasswords.list(5);
+    await applicationPasswords.delete(5, "u-1");
+    await applicationPasswords.list(5);
+
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+});
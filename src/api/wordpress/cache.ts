@@ -0,0 +1,272 @@
+import type { WPMiddleware, WPRequestContext } from "./middleware";
+import { getAuthIdentity } from "./http";
+
+/**
+ * Serialized response stored in a cache store
+ */
+export interface WPCacheEntry {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+  /**
+   * Timestamp (ms) when the entry was stored or last revalidated
+   */
+  storedAt: number;
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Storage adapter for cached responses (in-memory, Redis, filesystem, ...)
+ */
+export interface WPCacheStore {
+  get(
+    key: string
+  ): Promise<WPCacheEntry | undefined> | WPCacheEntry | undefined;
+  /**
+   * @param ttl Milliseconds after which the store may evict the entry
+   */
+  set(key: string, entry: WPCacheEntry, ttl: number): Promise<void> | void;
+  delete(key: string): Promise<void> | void;
+  keys(): Promise<string[]> | string[];
+}
+
+/**
+ * Options for createResponseCache()
+ */
+export interface WPResponseCacheOptions {
+  /**
+   * Storage adapter. Default: in-memory LRU with 500 entries
+   */
+  store?: WPCacheStore;
+  /**
+   * Milliseconds a response is served without contacting the server. Default: 60000
+   */
+  ttl?: number;
+  /**
+   * Extra milliseconds a stale response is served while it is revalidated in the background. Default: 0
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Milliseconds entries with an ETag or Last-Modified validator are kept for conditional
+   * revalidation once they are no longer served as-is. Default: 86400000 (one day)
+   */
+  revalidationWindow?: number;
+}
+
+/**
+ * HTTP response cache for GET requests
+ */
+export interface WPResponseCache {
+  /**
+   * Middleware that serves, stores and invalidates cached responses
+   */
+  middleware: WPMiddleware;
+  /**
+   * Remove every entry whose URL starts with the given prefix
+   */
+  invalidate(urlPrefix: string): Promise<void>;
+  /**
+   * Remove every entry
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Create an in-memory LRU cache store
+ * @param options.maxEntries Maximum number of entries kept. Default: 500
+ */
+export function createMemoryCacheStore(
+  options: { maxEntries?: number } = {}
+): WPCacheStore {
+  const { maxEntries = 500 } = options;
+  const entries = new Map<string, { entry: WPCacheEntry; expiresAt: number }>();
+
+  return {
+    get: (key) => {
+      const stored = entries.get(key);
+      if (!stored) return undefined;
+      if (stored.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      // Move to the end so the least recently used entry is evicted first
+      entries.delete(key);
+      entries.set(key, stored);
+      return stored.entry;
+    },
+    set: (key, entry, ttl) => {
+      entries.delete(key);
+      entries.set(key, { entry, expiresAt: Date.now() + ttl });
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    delete: (key) => {
+      entries.delete(key);
+    },
+    keys: () => Array.from(entries.keys()),
+  };
+}
+
+const buildCacheKey = async (ctx: WPRequestContext) =>
+  `${await getAuthIdentity(ctx.config.auth)} ${ctx.url}`;
+
+const urlFromKey = (key: string) => key.slice(key.indexOf(" ") + 1);
+
+const stripQuery = (url: string) => url.split("?")[0].split("#")[0];
+
+const toResponse = (entry: WPCacheEntry) =>
+  new Response(entry.body, {
+    status: entry.status,
+    statusText: entry.statusText,
+    headers: entry.headers,
+  });
+
+async function toEntry(response: Response): Promise<WPCacheEntry> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+    body: await response.clone().text(),
+    storedAt: Date.now(),
+    etag: response.headers.get("ETag") ?? undefined,
+    lastModified: response.headers.get("Last-Modified") ?? undefined,
+  };
+}
+
+/**
+ * Create a response cache for GET requests.
+ * Entries are keyed on the built request URL plus a SHA-256 of the auth identity,
+ * revalidated with If-None-Match/If-Modified-Since once stale, and dropped when
+ * a create/update/delete succeeds on the same resource.
+ *
+ * @example
+ * const cache = createResponseCache({ ttl: 30_000, staleWhileRevalidate: 300_000 });
+ * const wp = createWordPressClient({ baseUrl, cache });
+ *
+ * await wp.posts.list(); // network
+ * await wp.posts.list(); // cache
+ * await wp.posts.update(1, { title: "New" }); // invalidates posts lists and post 1
+ */
+export function createResponseCache(
+  options: WPResponseCacheOptions = {}
+): WPResponseCache {
+  const {
+    store = createMemoryCacheStore(),
+    ttl = 60_000,
+    staleWhileRevalidate = 0,
+    revalidationWindow = 86_400_000,
+  } = options;
+
+  const save = (key: string, entry: WPCacheEntry) =>
+    store.set(
+      key,
+      entry,
+      entry.etag || entry.lastModified
+        ? Math.max(ttl + staleWhileRevalidate, revalidationWindow)
+        : ttl + staleWhileRevalidate
+    );
+
+  const deleteMatching = async (match: (url: string) => boolean) => {
+    const keys = await store.keys();
+    await Promise.all(
+      keys
+        .filter((key) => match(urlFromKey(key)))
+        .map((key) => store.delete(key))
+    );
+  };
+
+  /**
+   * Drop the parent collection lists and the resource (with its sub-resources) a write targeted.
+   * Item IDs may be numbers, slugs, UUIDs or "me", so the last segment is never inspected.
+   */
+  const invalidateResource = (url: string) => {
+    const resourceUrl = stripQuery(url).replace(/\/+$/, "");
+    const collectionUrl = resourceUrl.slice(0, resourceUrl.lastIndexOf("/"));
+
+    return deleteMatching((cachedUrl) => {
+      const cachedPath = stripQuery(cachedUrl);
+      return (
+        cachedPath === collectionUrl ||
+        cachedPath === resourceUrl ||
+        cachedPath.startsWith(`${resourceUrl}/`)
+      );
+    });
+  };
+
+  /**
+   * Fetch from the server, revalidating `entry` when possible
+   */
+  const fetchAndStore = async (
+    ctx: WPRequestContext,
+    next: () => Promise<Response>,
+    key: string,
+    entry?: WPCacheEntry
+  ): Promise<Response> => {
+    if (entry?.etag) ctx.headers["If-None-Match"] = entry.etag;
+    if (entry?.lastModified) {
+      ctx.headers["If-Modified-Since"] = entry.lastModified;
+    }
+
+    const response = await next();
+
+    if (entry && response.status === 304) {
+      const refreshed = { ...entry, storedAt: Date.now() };
+      await save(key, refreshed);
+      return toResponse(refreshed);
+    }
+
+    if (response.status === 200) {
+      await save(key, await toEntry(response));
+    }
+
+    return response;
+  };
+
+  const middleware: WPMiddleware = async (ctx, next) => {
+    if (ctx.method !== "GET") {
+      const response = await next();
+      if (response.ok) {
+        await invalidateResource(ctx.url);
+      }
+      return response;
+    }
+
+    const key = await buildCacheKey(ctx);
+    const entry = await store.get(key);
+
+    if (entry) {
+      const age = Date.now() - entry.storedAt;
+
+      if (age < ttl) {
+        return toResponse(entry);
+      }
+
+      if (age < ttl + staleWhileRevalidate) {
+        // Serve stale data now and refresh in the background, detached from the caller's signal
+        ctx.signal = undefined;
+        fetchAndStore(ctx, next, key, entry).catch(() => undefined);
+        return toResponse(entry);
+      }
+    }
+
+    return fetchAndStore(ctx, next, key, entry);
+  };
+
+  return {
+    middleware,
+    invalidate: (urlPrefix) =>
+      deleteMatching((url) => url.startsWith(urlPrefix)),
+    clear: async () => {
+      const keys = await store.keys();
+      await Promise.all(keys.map((key) => store.delete(key)));
+    },
+  };
+}
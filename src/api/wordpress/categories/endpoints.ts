@@ -5,37 +5,27 @@ import type {
   WPCategoryUpdate,
   RequestOptions,
 } from "./types";
-import type { WPPaginatedResponse } from "../types";
-import type { AuthResponse } from "../../../auth";
-import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+import type {
+  WPContext,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
 
 /**
  * Base path for WordPress categories API endpoints
  */
 const BASE_PATH = "/wp/v2/categories";
 
-/**
- * Categories API endpoints configuration
- */
-interface CategoriesEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Categories API endpoints
  */
-export const createCategoryEndpoints = ({
-  baseUrl,
-  auth,
-}: CategoriesEndpointsConfig) => {
+export const createCategoryEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of categories
@@ -53,16 +43,14 @@ export const createCategoryEndpoints = ({
      * const controller = new AbortController();
      * const categories = await api.categories.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPCategoryParameters,
+    list: async <F extends string = never>(
+      params?: WPFieldsParams<WPCategoryParameters, WPCategory, F>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPCategory>> => {
-      return apiGetPaginated<WPCategory>(
-        baseUrl,
+    ): Promise<WPPaginatedResponse<WPFields<WPCategory, F>>> => {
+      return api.getPaginated<WPFields<WPCategory, F>>(
         BASE_PATH,
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -146,7 +134,7 @@ export const createCategoryEndpoints = ({
     /**
      * Get a single category by ID
      * @param id The category ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param embed Whether to embed related resources
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the category data
@@ -161,19 +149,16 @@ export const createCategoryEndpoints = ({
      * const controller = new AbortController();
      * const category = await api.categories.get(123, 'view', false, { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPCategory, F>,
       embed: boolean = false,
       options?: RequestOptions
-    ): Promise<WPCategory> => {
-      const params = { context, ...(embed && { _embed: true }) };
-      return apiGet<WPCategory>(
-        baseUrl,
+    ): Promise<WPFields<WPCategory, F>> => {
+      return api.get<WPFields<WPCategory, F>>(
         buildResourcePath(BASE_PATH, id),
-        params,
-        auth,
-        options?.signal
+        buildItemParams(context, embed),
+        options
       );
     },
 
@@ -200,13 +185,7 @@ export const createCategoryEndpoints = ({
       data: WPCategoryCreate,
       options?: RequestOptions
     ): Promise<WPCategory> => {
-      return apiPost<WPCategory>(
-        baseUrl,
-        BASE_PATH,
-        data,
-        auth,
-        options?.signal
-      );
+      return api.post<WPCategory>(BASE_PATH, data, options);
     },
 
     /**
@@ -232,12 +211,10 @@ export const createCategoryEndpoints = ({
       data: WPCategoryUpdate,
       options?: RequestOptions
     ): Promise<WPCategory> => {
-      return apiPut<WPCategory>(
-        baseUrl,
+      return api.put<WPCategory>(
         buildResourcePath(BASE_PATH, id),
         data,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -261,12 +238,10 @@ export const createCategoryEndpoints = ({
       options?: RequestOptions
     ): Promise<WPCategory> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPCategory>(
-        baseUrl,
+      return api.delete<WPCategory>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
   };
@@ -5,38 +5,29 @@ import type {
   WPCommentUpdate,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
-import { createPaginationHelpers } from "../utils";
 import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+  WPContext,
+  WPEmbeds,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createPaginationHelpers } from "../utils";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
 
 /**
  * Base path for WordPress comments API endpoints
  */
 const BASE_PATH = "/wp/v2/comments";
 
-/**
- * Comments API endpoints configuration
- */
-interface CommentsEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Comments API endpoints
  */
-export const createCommentsEndpoints = ({
-  baseUrl,
-  auth,
-}: CommentsEndpointsConfig) => {
+export const createCommentsEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of comments
@@ -54,23 +45,21 @@ export const createCommentsEndpoints = ({
      * const controller = new AbortController();
      * const comments = await api.comments.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPCommentParameters,
+    list: async <F extends string = never, E extends string = never>(
+      params?: WPFieldsParams<WPCommentParameters, WPComment, F, E>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPComment>> => {
-      return apiGetPaginated<WPComment>(
-        baseUrl,
+    ): Promise<WPPaginatedResponse<WPEmbeds<WPFields<WPComment, F>, E>>> => {
+      return api.getPaginated<WPEmbeds<WPFields<WPComment, F>, E>>(
         BASE_PATH,
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
     /**
      * Get a single comment by ID
      * @param id The comment ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the comment data
      * @example
@@ -81,17 +70,15 @@ export const createCommentsEndpoints = ({
      * const controller = new AbortController();
      * const comment = await api.comments.get(123, 'view', { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never, E extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPComment, F, E>,
       options?: RequestOptions
-    ): Promise<WPComment> => {
-      return apiGet<WPComment>(
-        baseUrl,
+    ): Promise<WPEmbeds<WPFields<WPComment, F>, E>> => {
+      return api.get<WPEmbeds<WPFields<WPComment, F>, E>>(
         buildResourcePath(BASE_PATH, id),
-        { context },
-        auth,
-        options?.signal
+        buildItemParams(context),
+        options
       );
     },
 
@@ -120,13 +107,7 @@ export const createCommentsEndpoints = ({
       data: WPCommentCreate,
       options?: RequestOptions
     ): Promise<WPComment> => {
-      return apiPost<WPComment>(
-        baseUrl,
-        BASE_PATH,
-        data,
-        auth,
-        options?.signal
-      );
+      return api.post<WPComment>(BASE_PATH, data, options);
     },
 
     /**
@@ -155,12 +136,10 @@ export const createCommentsEndpoints = ({
       data: WPCommentUpdate,
       options?: RequestOptions
     ): Promise<WPComment> => {
-      return apiPut<WPComment>(
-        baseUrl,
+      return api.put<WPComment>(
         buildResourcePath(BASE_PATH, id),
         data,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -187,18 +166,19 @@ export const createCommentsEndpoints = ({
       options?: RequestOptions
     ): Promise<WPComment> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPComment>(
-        baseUrl,
+      return api.delete<WPComment>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
   };
 
   // Add pagination helpers
-  const paginationHelpers = createPaginationHelpers(endpoints.list);
+  const paginationHelpers = createPaginationHelpers<
+    WPComment,
+    WPCommentParameters
+  >(endpoints.list);
   return {
     ...endpoints,
     ...paginationHelpers,
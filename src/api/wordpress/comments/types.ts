@@ -1,4 +1,4 @@
-import { WPBaseParameters, WPEmbeddable } from "../types";
+import { WPBaseParameters, WPEmbeddable, WPEmbeddedResources } from "../types";
 
 export type { RequestOptions } from "../types";
 
@@ -78,6 +78,10 @@ export interface WPComment extends WPCommentBase, WPEmbeddable {
    * URL to the comment.
    */
   link: string;
+  /**
+   * Embedded resources, only present when _embed is requested.
+   */
+  _embedded?: WPEmbeddedResources;
 }
 
 // POST/CREATE request type
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import {
+  createPostTypeEndpoints,
+  createPostTypeEndpointsFromType,
+} from "./custom-post-types";
+import type { WPPost } from "./posts";
+
+interface Product extends WPPost {
+  price: number;
+}
+
+describe("createPostTypeEndpoints", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  mockGlobalFetch();
+
+  it("should list items under the post type's rest_base", async () => {
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse([{ id: 1, price: 10 }], 200, {
+        "X-WP-Total": "1",
+        "X-WP-TotalPages": "1",
+      })
+    );
+    const products = createPostTypeEndpoints<Product>({
+      baseUrl,
+      restBase: "products",
+    });
+
+    const { items } = await products.list({
+      per_page: 5,
+      taxonomies: { product_cat: [3] },
+    });
+
+    expect(items[0].price).toBe(10);
+    const url = new URL((global.fetch as any).mock.calls[0][0]);
+    expect(url.pathname).toBe("/wp-json/wp/v2/products");
+    expect(url.searchParams.get("per_page")).toBe("5");
+    expect(url.searchParams.get("product_cat")).toBe("3");
+  });
+
+  it("should use a custom namespace", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 7 }));
+    const events = createPostTypeEndpoints({
+      baseUrl,
+      restBase: "events",
+      restNamespace: "tribe/v1",
+    });
+
+    await events.update(7, { title: "Launch" });
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/tribe/v1/events/7");
+    expect(init.headers["X-HTTP-Method-Override"]).toBe("PUT");
+  });
+
+  it("should build endpoints from a post type object", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse([]));
+    const books = createPostTypeEndpointsFromType(
+      { baseUrl },
+      { rest_base: "books", rest_namespace: "library/v1" }
+    );
+
+    await books.getRevisions(4);
+
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/library/v1/books/4/revisions"
+    );
+  });
+});
@@ -0,0 +1,208 @@
+import type {
+  WPPostTypeEndpointsConfig,
+  WPPostTypeRoute,
+  RequestOptions,
+} from "./types";
+import type {
+  WPPost,
+  WPPostParameters,
+  WPPostCreate,
+  WPPostUpdate,
+} from "../posts/types";
+import {
+  WPContext,
+  WPEmbeds,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createPaginationHelpers } from "../utils";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
+import { createRevisionEndpoints } from "../revisions/endpoints";
+import type { WPRevision } from "../revisions/types";
+
+/**
+ * Namespace used when a post type does not declare one
+ */
+const DEFAULT_REST_NAMESPACE = "wp/v2";
+
+/**
+ * Endpoints for any post type exposed through the REST API (products, events, ...)
+ * @param config Shared endpoints config plus the post type's `restBase` and `restNamespace`
+ * @example
+ * interface Product extends WPPost {
+ *   price: number;
+ * }
+ *
+ * const products = createPostTypeEndpoints<Product>({
+ *   ...config,
+ *   restBase: "products",
+ * });
+ *
+ * const { items } = await products.list({ per_page: 20 });
+ * await products.update(12, { status: "publish" });
+ */
+export const createPostTypeEndpoints = <
+  TItem = WPPost,
+  TParams extends { page?: number; per_page?: number } = WPPostParameters,
+  TCreate = WPPostCreate,
+  TUpdate = WPPostUpdate
+>(
+  config: WPPostTypeEndpointsConfig
+) => {
+  const { restBase, restNamespace, ...endpointsConfig } = config;
+  const api = createApiClient(endpointsConfig);
+  const basePath = `/${restNamespace || DEFAULT_REST_NAMESPACE}/${restBase}`;
+
+  const buildQueryParams = (
+    params?: WPFieldsParams<TParams, TItem, string>
+  ) => {
+    if (!params) return undefined;
+
+    // Same flattening as posts: taxonomy filters and custom params become top-level
+    const { taxonomies, custom, ...rest } = params as typeof params & {
+      taxonomies?: Record<string, unknown>;
+      custom?: Record<string, unknown>;
+    };
+    return {
+      ...rest,
+      ...(taxonomies || {}),
+      ...(custom || {}),
+    };
+  };
+
+  const endpoints = {
+    /**
+     * Get a list of items
+     * @param params Optional parameters to filter, sort and paginate the items
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with the items and pagination info
+     */
+    list: async <F extends string = never, E extends string = never>(
+      params?: WPFieldsParams<TParams, TItem, F, E>,
+      options?: RequestOptions
+    ): Promise<WPPaginatedResponse<WPEmbeds<WPFields<TItem, F>, E>>> => {
+      return api.getPaginated<WPEmbeds<WPFields<TItem, F>, E>>(
+        basePath,
+        buildQueryParams(params),
+        options
+      );
+    },
+
+    /**
+     * Get a single item by ID
+     * @param id The item ID
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
+     * @param embed Whether to embed related resources like author, featured media, etc., or the link relations to embed
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with the item data
+     */
+    get: async <F extends string = never, E extends string = never>(
+      id: number,
+      context?: WPContext | WPFieldsParams<WPGetParameters, TItem, F, E>,
+      embed: boolean | readonly E[] = false,
+      options?: RequestOptions
+    ): Promise<WPEmbeds<WPFields<TItem, F>, E>> => {
+      return api.get<WPEmbeds<WPFields<TItem, F>, E>>(
+        buildResourcePath(basePath, id),
+        buildItemParams(context, embed),
+        options
+      );
+    },
+
+    /**
+     * Create a new item
+     * @param data The item data
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with the created item data
+     */
+    create: async (data: TCreate, options?: RequestOptions): Promise<TItem> => {
+      return api.post<TItem>(basePath, data, options);
+    },
+
+    /**
+     * Update an existing item
+     * @param id The item ID to update
+     * @param data The item data to update
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with the updated item data
+     */
+    update: async (
+      id: number,
+      data: TUpdate,
+      options?: RequestOptions
+    ): Promise<TItem> => {
+      return api.put<TItem>(buildResourcePath(basePath, id), data, options);
+    },
+
+    /**
+     * Delete an item
+     * @param id The item ID to delete
+     * @param force Whether to bypass trash and force deletion
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with the deleted item data
+     */
+    delete: async (
+      id: number,
+      force: boolean = false,
+      options?: RequestOptions
+    ): Promise<TItem> => {
+      const params = force ? { force: true } : undefined;
+      return api.delete<TItem>(
+        buildResourcePath(basePath, id),
+        params,
+        options
+      );
+    },
+
+    /**
+     * Get a list of revisions for a specific item
+     * @param id The item ID
+     * @param options Optional request options (e.g., AbortSignal)
+     * @returns Promise with an array of revisions
+     */
+    getRevisions: async (
+      id: number,
+      options?: RequestOptions
+    ): Promise<WPRevision[]> => {
+      return api.get<WPRevision[]>(`${basePath}/${id}/revisions`, {}, options);
+    },
+
+    // Paginated revisions, single revision, delete and restore
+    ...createRevisionEndpoints<TItem>(config, basePath),
+  };
+
+  // Add pagination helpers
+  const paginationHelpers = createPaginationHelpers<TItem, TParams>(
+    endpoints.list
+  );
+  return {
+    ...endpoints,
+    ...paginationHelpers,
+  };
+};
+
+/**
+ * Build endpoints for a post type returned by createPostTypesEndpoints(),
+ * reading its `rest_base` and `rest_namespace`
+ * @example
+ * const types = await wp.postTypes.list();
+ * const product = types.items.find((type) => type.slug === "product")!;
+ * const products = createPostTypeEndpointsFromType<Product>(wp.config, product);
+ */
+export const createPostTypeEndpointsFromType = <
+  TItem = WPPost,
+  TParams extends { page?: number; per_page?: number } = WPPostParameters,
+  TCreate = WPPostCreate,
+  TUpdate = WPPostUpdate
+>(
+  config: WPEndpointsConfig,
+  postType: WPPostTypeRoute
+) =>
+  createPostTypeEndpoints<TItem, TParams, TCreate, TUpdate>({
+    ...config,
+    restBase: postType.rest_base,
+    restNamespace: postType.rest_namespace,
+  });
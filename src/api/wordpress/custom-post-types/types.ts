@@ -0,0 +1,24 @@
+import type { WPEndpointsConfig } from "../types";
+import type { WPPostType } from "../post-types/types";
+
+export type { RequestOptions } from "../types";
+
+/**
+ * Config for createPostTypeEndpoints()
+ */
+export interface WPPostTypeEndpointsConfig extends WPEndpointsConfig {
+  /**
+   * REST base of the post type (e.g., "products" for /wp/v2/products).
+   */
+  restBase: string;
+  /**
+   * REST namespace of the post type. Default: "wp/v2"
+   */
+  restNamespace?: string;
+}
+
+/**
+ * Fields of a post type object needed to build its endpoints
+ */
+export type WPPostTypeRoute = Pick<WPPostType, "rest_base"> &
+  Partial<Pick<WPPostType, "rest_namespace">>;
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { getInFlightRequestCount } from "./dedupe";
+import { createPostsEndpoints } from "./posts";
+
+describe("Request deduplication", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  // Each fetch call waits for respond(call, body), or rejects when its signal aborts
+  const pendingFetch = () => {
+    const responders: Array<(body: unknown) => void> = [];
+    (global.fetch as any).mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((resolve, reject) => {
+          responders.push((body) => resolve(jsonResponse(body)));
+          init.signal?.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          );
+        })
+    );
+    return {
+      respond: (call: number, body: unknown) => responders[call](body),
+    };
+  };
+
+  mockGlobalFetch();
+
+  it("should share one network call between identical GET requests", async () => {
+    const { respond } = pendingFetch();
+    const config = { baseUrl, dedupe: true };
+    const posts = createPostsEndpoints(config);
+
+    const requests = [posts.get(1), posts.get(1), posts.get(2)];
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(2));
+    expect(getInFlightRequestCount(config)).toBe(2);
+
+    respond(0, { id: 1 });
+    respond(1, { id: 2 });
+
+    expect(await Promise.all(requests)).toEqual([
+      { id: 1 },
+      { id: 1 },
+      { id: 2 },
+    ]);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+    expect(getInFlightRequestCount(config)).toBe(0);
+  });
+
+  it("should not merge requests made with different credentials", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    const config = (token: string) => ({
+      baseUrl,
+      dedupe: true,
+      auth: { headers: { Authorization: `Bearer ${token}` } },
+    });
+
+    await Promise.all([
+      createPostsEndpoints(config("a")).get(1),
+      createPostsEndpoints(config("b")).get(1),
+    ]);
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep the shared request alive when one caller aborts", async () => {
+    const { respond } = pendingFetch();
+    const posts = createPostsEndpoints({ baseUrl, dedupe: true });
+    const controller = new AbortController();
+
+    const aborted = posts.get(1, undefined, undefined, {
+      signal: controller.signal,
+    });
+    const kept = posts.get(1);
+
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+
+    respond(0, { id: 1 });
+    expect(await kept).toEqual({ id: 1 });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should cancel the network call once every caller aborts", async () => {
+    pendingFetch();
+    const config = { baseUrl, dedupe: true };
+    const posts = createPostsEndpoints(config);
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const requests = [
+      posts.get(1, undefined, undefined, { signal: first.signal }),
+      posts.get(1, undefined, undefined, { signal: second.signal }),
+    ];
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledOnce());
+    const [, init] = (global.fetch as any).mock.calls[0];
+
+    first.abort();
+    expect(init.signal.aborted).toBe(false);
+    second.abort();
+    expect(init.signal.aborted).toBe(true);
+
+    await Promise.all(
+      requests.map((request) =>
+        expect(request).rejects.toMatchObject({ name: "AbortError" })
+      )
+    );
+    expect(getInFlightRequestCount(config)).toBe(0);
+  });
+
+  it("should key on the credentials set by beforeRequest", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 5 })
+    );
+    const headers: Record<string, string> = {};
+    const posts = createPostsEndpoints({
+      baseUrl,
+      dedupe: true,
+      auth: {
+        headers,
+        // e.g., a JWT provider logging in before its first request
+        beforeRequest: async () => {
+          headers.Authorization = "Bearer jwt";
+        },
+      },
+    });
+
+    await Promise.all([
+      posts.get(5, "edit", false, { auth: false }),
+      posts.get(5, "edit"),
+    ]);
+
+    const calls = (global.fetch as any).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][1].headers.Authorization).toBeUndefined();
+    expect(calls[1][1].headers.Authorization).toBe("Bearer jwt");
+  });
+
+  it("should not share requests between endpoints configs", async () => {
+    const { respond } = pendingFetch();
+    const requests = [
+      createPostsEndpoints({ baseUrl, dedupe: true }).get(1),
+      createPostsEndpoints({ baseUrl, dedupe: true }).get(1),
+    ];
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledTimes(2));
+    respond(0, { id: 1 });
+    respond(1, { id: 1 });
+
+    await Promise.all(requests);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,113 @@
+import { getAbortReason } from "./retry";
+import type { WPEndpointsConfig } from "./types";
+
+interface InFlightRequest {
+  promise: Promise<Response>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/**
+ * Requests currently in flight, keyed on method, URL and auth identity
+ */
+export type WPInFlightRequests = Map<string, InFlightRequest>;
+
+/**
+ * In-flight requests of each endpoints config. Clients built from different configs
+ * (other fetch, middleware or defaults) never share a network call.
+ */
+const inFlightByConfig = new WeakMap<WPEndpointsConfig, WPInFlightRequests>();
+
+/**
+ * In-flight requests shared by every client built from `config`
+ */
+export function getInFlightRequests(
+  config: WPEndpointsConfig
+): WPInFlightRequests {
+  let inFlight = inFlightByConfig.get(config);
+  if (!inFlight) {
+    inFlight = new Map();
+    inFlightByConfig.set(config, inFlight);
+  }
+  return inFlight;
+}
+
+/**
+ * Number of distinct requests currently being shared by clients built from `config`
+ */
+export function getInFlightRequestCount(config: WPEndpointsConfig): number {
+  return getInFlightRequests(config).size;
+}
+
+/**
+ * Run `run` once for all concurrent callers using the same key.
+ * The shared request gets its own AbortSignal: one caller aborting only rejects
+ * that caller, and the request is cancelled once every caller has aborted.
+ *
+ * @param inFlight Requests that may be joined
+ * @param key Identifies identical requests (method, URL and auth identity)
+ * @param signal The caller's AbortSignal
+ * @param run Starts the request with the shared signal
+ */
+export function dedupeRequest(
+  inFlight: WPInFlightRequests,
+  key: string,
+  signal: AbortSignal | undefined,
+  run: (signal: AbortSignal) => Promise<Response>
+): Promise<Response> {
+  if (signal?.aborted) {
+    return Promise.reject(getAbortReason(signal));
+  }
+
+  let entry = inFlight.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightRequest = {
+      controller,
+      waiters: 0,
+      promise: run(controller.signal).finally(() => {
+        if (inFlight.get(key) === created) inFlight.delete(key);
+      }),
+    };
+    inFlight.set(key, created);
+    entry = created;
+  }
+
+  const shared = entry;
+  shared.waiters++;
+
+  return new Promise<Response>((resolve, reject) => {
+    let settled = false;
+
+    const onAbort = () => {
+      if (settled) return;
+      settled = true;
+      reject(getAbortReason(signal!));
+
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        // Nobody is waiting any more; later callers start a fresh request
+        if (inFlight.get(key) === shared) inFlight.delete(key);
+        shared.controller.abort(getAbortReason(signal!));
+      }
+    };
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    shared.promise.then(
+      (response) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        // Give every caller its own readable body
+        resolve(response.clone());
+      },
+      (error) => {
+        if (settled) return;
+        settled = true;
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      }
+    );
+  });
+}
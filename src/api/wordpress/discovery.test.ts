@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import {
+  createDiscoveryEndpoints,
+  discoverRestRoot,
+  getRestFeatures,
+  type WPRestIndex,
+} from "./discovery";
+
+const restIndex = (overrides: Partial<WPRestIndex> = {}): WPRestIndex => ({
+  name: "Example",
+  description: "Just another WordPress site",
+  url: "https://example.com",
+  home: "https://example.com",
+  gmt_offset: 0,
+  timezone_string: "",
+  namespaces: ["oembed/1.0", "wp/v2", "yoast/v1"],
+  authentication: {
+    "application-passwords": {
+      endpoints: {
+        authorization: "https://example.com/wp-admin/authorize-application.php",
+      },
+    },
+  },
+  routes: {
+    "/wp/v2/posts": { namespace: "wp/v2", methods: ["GET"], endpoints: [] },
+    "/batch/v1": { namespace: "", methods: ["POST"], endpoints: [] },
+  },
+  ...overrides,
+});
+
+describe("REST discovery", () => {
+  mockGlobalFetch();
+
+  it("should resolve the REST root from the Link header", async () => {
+    (global.fetch as any).mockResolvedValue(
+      new Response("", {
+        headers: {
+          Link: '<https://example.com/wp-json/wp/v2/pages/2>; rel="alternate"; type="application/json", <https://example.com/wp-json/>; rel="https://api.w.org/"',
+        },
+      })
+    );
+
+    expect(await discoverRestRoot("https://example.com")).toBe(
+      "https://example.com/wp-json"
+    );
+  });
+
+  it("should fall back to the HTML link tag", async () => {
+    (global.fetch as any).mockResolvedValue(
+      new Response(
+        '<html><head><link href="https://example.com/?rest_route=/" rel="https://api.w.org/" /></head></html>'
+      )
+    );
+
+    expect(await discoverRestRoot("https://example.com")).toBe(
+      "https://example.com/?rest_route="
+    );
+  });
+
+  it("should fail when the site does not advertise a REST root", async () => {
+    (global.fetch as any).mockResolvedValue(new Response("<html></html>"));
+
+    await expect(discoverRestRoot("https://example.com")).rejects.toThrow(
+      "No WordPress REST API root"
+    );
+  });
+
+  it("should fetch the index without default _fields", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse(restIndex()));
+    const discovery = createDiscoveryEndpoints({
+      baseUrl: "https://example.com/wp-json",
+      defaults: { _fields: ["id"] },
+    });
+
+    const index = await discovery.index();
+
+    expect(index.namespaces).toContain("wp/v2");
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/"
+    );
+  });
+
+  it("should report available features", () => {
+    expect(getRestFeatures(restIndex())).toMatchObject({
+      posts: true,
+      menus: false,
+      batch: true,
+      yoast: true,
+      applicationPasswords: true,
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import type { WPRestFeatures, WPRestIndex, RequestOptions } from "./types";
+import { WPEndpointsConfig, WPFetch } from "../types";
+import { WPError, toRequestError } from "../errors";
+import { createApiClient } from "../http";
+
+/**
+ * Link relation WordPress uses to advertise its REST root
+ */
+const API_LINK_REL = "https://api.w.org/";
+
+/**
+ * Routes backing each client namespace
+ */
+const FEATURE_ROUTES: Record<
+  Exclude<keyof WPRestFeatures, "yoast" | "applicationPasswords">,
+  string
+> = {
+  posts: "/wp/v2/posts",
+  pages: "/wp/v2/pages",
+  media: "/wp/v2/media",
+  comments: "/wp/v2/comments",
+  categories: "/wp/v2/categories",
+  tags: "/wp/v2/tags",
+  taxonomies: "/wp/v2/taxonomies",
+  users: "/wp/v2/users",
+  menus: "/wp/v2/menus",
+  settings: "/wp/v2/settings",
+  postTypes: "/wp/v2/types",
+  postStatuses: "/wp/v2/statuses",
+  batch: "/batch/v1",
+};
+
+const stripTrailingSlash = (url: string) =>
+  url.endsWith("/") ? url.slice(0, -1) : url;
+
+/**
+ * Find the REST root in a `Link` header
+ */
+function findRootInLinkHeader(header: string | null): string | undefined {
+  if (!header) return undefined;
+
+  for (const link of header.split(/,(?=\s*<)/)) {
+    const match = link.match(/<([^>]+)>(.*)/);
+    if (match && /rel="?https:\/\/api\.w\.org\/"?/.test(match[2])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the REST root in the `<link rel="https://api.w.org/">` tag of an HTML page
+ */
+function findRootInHtml(html: string): string | undefined {
+  for (const [tag] of html.matchAll(/<link\b[^>]*>/gi)) {
+    const rel = tag.match(/\brel=["']([^"']+)["']/i)?.[1];
+    const href = tag.match(/\bhref=["']([^"']+)["']/i)?.[1];
+    if (rel === API_LINK_REL && href) {
+      return href.replace(/&amp;/g, "&");
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolve the REST root (e.g., https://site.com/wp-json) from a plain site URL,
+ * using the `Link: rel="https://api.w.org/"` header or the HTML `<link>` tag.
+ *
+ * Sites without pretty permalinks advertise `https://site.com/?rest_route=/`;
+ * that root works for paths but not for requests with query parameters.
+ *
+ * @example
+ * const baseUrl = await discoverRestRoot("https://example.com");
+ * const wp = createWordPressClient({ baseUrl });
+ */
+export async function discoverRestRoot(
+  siteUrl: string,
+  options: { fetch?: WPFetch; signal?: AbortSignal } = {}
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await (options.fetch ?? fetch)(siteUrl, {
+      method: "GET",
+      headers: { Accept: "text/html" },
+      signal: options.signal,
+    });
+  } catch (error) {
+    throw toRequestError(error, options.signal);
+  }
+
+  const root =
+    findRootInLinkHeader(response.headers.get("Link")) ??
+    findRootInHtml(await response.text());
+
+  if (!root) {
+    throw new WPError(`No WordPress REST API root advertised by ${siteUrl}`);
+  }
+
+  return stripTrailingSlash(root);
+}
+
+/**
+ * Work out which client namespaces a site supports from its REST index
+ */
+export function getRestFeatures(index: WPRestIndex): WPRestFeatures {
+  const routes = index.routes || {};
+  const byRoute = Object.fromEntries(
+    Object.entries(FEATURE_ROUTES).map(([feature, route]) => [
+      feature,
+      route in routes,
+    ])
+  ) as Record<keyof typeof FEATURE_ROUTES, boolean>;
+
+  return {
+    ...byRoute,
+    yoast: (index.namespaces || []).includes("yoast/v1"),
+    applicationPasswords: Boolean(
+      index.authentication?.["application-passwords"]
+    ),
+  };
+}
+
+/**
+ * REST discovery endpoints
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ */
+export const createDiscoveryEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
+  /**
+   * Fetch the REST index: site name, namespaces, routes and authentication schemes
+   */
+  const index = (options?: RequestOptions): Promise<WPRestIndex> =>
+    // The index ignores context, and default _fields would strip it
+    api.get<WPRestIndex>("/", undefined, { queryDefaults: false, ...options });
+
+  return {
+    index,
+
+    /**
+     * Fetch the index of a single namespace (e.g., "wp/v2" or "yoast/v1")
+     */
+    namespace: (
+      namespace: string,
+      options?: RequestOptions
+    ): Promise<Pick<WPRestIndex, "routes"> & { namespace: string }> =>
+      api.get(`/${namespace}`, undefined, {
+        queryDefaults: false,
+        ...options,
+      }),
+
+    /**
+     * Fetch the index and report which client namespaces the site supports
+     * @example
+     * const features = await wp.discovery.features();
+     * if (features.menus) {
+     *   await wp.menus.list();
+     * }
+     */
+    features: async (options?: RequestOptions): Promise<WPRestFeatures> =>
+      getRestFeatures(await index(options)),
+  };
+};
@@ -0,0 +1,97 @@
+export type { RequestOptions } from "../types";
+
+/**
+ * Argument accepted by a route endpoint, as described in the index
+ */
+export interface WPRestRouteArg {
+  type?: string | string[];
+  description?: string;
+  required?: boolean;
+  default?: unknown;
+  enum?: unknown[];
+  items?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * One HTTP handler of a route
+ */
+export interface WPRestRouteEndpoint {
+  methods: string[];
+  args: Record<string, WPRestRouteArg>;
+  allow_batch?: { v1: boolean };
+}
+
+/**
+ * Route entry of the REST index
+ */
+export interface WPRestRoute {
+  namespace: string;
+  methods: string[];
+  endpoints: WPRestRouteEndpoint[];
+  allow_batch?: { v1: boolean };
+  _links?: Record<string, Array<{ href: string }>>;
+}
+
+/**
+ * Authentication schemes advertised by the site
+ */
+export interface WPRestAuthentication {
+  "application-passwords"?: {
+    endpoints: {
+      /**
+       * URL of the screen that authorizes an application password
+       */
+      authorization: string;
+    };
+  };
+  [scheme: string]: unknown;
+}
+
+/**
+ * Response of the REST root (`GET /wp-json/`)
+ */
+export interface WPRestIndex {
+  name: string;
+  description: string;
+  url: string;
+  home: string;
+  gmt_offset: number | string;
+  timezone_string: string;
+  site_logo?: number;
+  site_icon?: number;
+  site_icon_url?: string;
+  namespaces: string[];
+  authentication: WPRestAuthentication;
+  routes: Record<string, WPRestRoute>;
+}
+
+/**
+ * Which client namespaces and features the site supports
+ */
+export interface WPRestFeatures {
+  posts: boolean;
+  pages: boolean;
+  media: boolean;
+  comments: boolean;
+  categories: boolean;
+  tags: boolean;
+  taxonomies: boolean;
+  users: boolean;
+  menus: boolean;
+  settings: boolean;
+  postTypes: boolean;
+  postStatuses: boolean;
+  /**
+   * `POST /batch/v1` (WordPress 5.6+)
+   */
+  batch: boolean;
+  /**
+   * Yoast SEO (`yoast/v1` namespace)
+   */
+  yoast: boolean;
+  /**
+   * Application passwords (WordPress 5.6+, HTTPS only by default)
+   */
+  applicationPasswords: boolean;
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { getAuthor, getFeaturedMedia, getTerms } from "./embeds";
+import { createPostsEndpoints } from "./posts";
+import type { WPComment } from "./comments";
+import type { WPEmbeddedAuthor, WPEmbeddedMedia } from "./types";
+
+const term = (id: number, taxonomy: string) => ({
+  id,
+  link: "",
+  name: `Term ${id}`,
+  slug: `term-${id}`,
+  taxonomy,
+  _links: {},
+});
+
+describe("Embedded resources", () => {
+  mockGlobalFetch();
+
+  it("should request and type only the listed link relations", async () => {
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ id: 1, _embedded: { author: [{ id: 2 }] } })
+    );
+    const posts = createPostsEndpoints({
+      baseUrl: "https://example.com/wp-json",
+    });
+
+    const post = await posts.get(1, "view", ["author", "wp:featuredmedia"]);
+
+    expectTypeOf(post._embedded).toEqualTypeOf<
+      | {
+          author?: WPEmbeddedAuthor[];
+          "wp:featuredmedia"?: WPEmbeddedMedia[];
+        }
+      | undefined
+    >();
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/posts/1?context=view&_embed=author%2Cwp%3Afeaturedmedia"
+    );
+  });
+
+  it("should read the author and featured media", () => {
+    const item = {
+      _embedded: {
+        author: [{ id: 2, name: "Ada" } as WPEmbeddedAuthor],
+        "wp:featuredmedia": [
+          { id: 9, source_url: "https://example.com/a.jpg" } as WPEmbeddedMedia,
+        ],
+      },
+    };
+
+    expect(getAuthor(item)?.name).toBe("Ada");
+    expect(getFeaturedMedia(item)?.source_url).toBe(
+      "https://example.com/a.jpg"
+    );
+    expect(getAuthor({})).toBeUndefined();
+  });
+
+  it("should skip resources WordPress could not embed", () => {
+    const comment = {
+      _embedded: {
+        author: [
+          { code: "rest_user_invalid_id", message: "Invalid user ID." },
+        ] as unknown as WPEmbeddedAuthor[],
+      },
+    } as WPComment;
+
+    expect(getAuthor(comment)).toBeUndefined();
+  });
+
+  it("should flatten terms and filter them by taxonomy", () => {
+    const item = {
+      _embedded: {
+        "wp:term": [
+          [term(1, "category"), term(2, "category")],
+          [term(3, "post_tag")],
+        ],
+      },
+    };
+
+    expect(getTerms(item).map((t) => t.id)).toEqual([1, 2, 3]);
+    expect(getTerms(item, "post_tag").map((t) => t.id)).toEqual([3]);
+    expect(getTerms({}, "category")).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+import type {
+  WPEmbeddedAuthor,
+  WPEmbeddedMedia,
+  WPEmbeddedResources,
+  WPEmbeddedTerm,
+} from "./types";
+
+/**
+ * Any response that may carry embedded resources (posts, pages, media, comments, ...)
+ */
+export interface WPWithEmbeds {
+  _embedded?: WPEmbeddedResources;
+}
+
+/**
+ * WordPress embeds `{ code, message, data }` in place of resources the current user cannot read
+ */
+function isEmbeddedResource<T>(value: T | undefined): value is T {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    !("code" in value && "message" in value)
+  );
+}
+
+/**
+ * Get the embedded author of a post, page, media item or comment
+ * @returns The author, or undefined when it was not embedded or is not readable
+ * @example
+ * const post = await wp.posts.get(1, "view", ["author"]);
+ * console.log(getAuthor(post)?.name);
+ */
+export function getAuthor(item: WPWithEmbeds): WPEmbeddedAuthor | undefined {
+  const author = item._embedded?.author?.[0];
+  return isEmbeddedResource(author) ? author : undefined;
+}
+
+/**
+ * Get the embedded featured image of a post or page
+ * @returns The attachment, or undefined when it was not embedded or is not readable
+ * @example
+ * const { items } = await wp.posts.list({ _embed: ["wp:featuredmedia"] });
+ * const images = items.map((post) => getFeaturedMedia(post)?.source_url);
+ */
+export function getFeaturedMedia(
+  item: WPWithEmbeds
+): WPEmbeddedMedia | undefined {
+  const media = item._embedded?.["wp:featuredmedia"]?.[0];
+  return isEmbeddedResource(media) ? media : undefined;
+}
+
+/**
+ * Get the embedded terms of a post or page, optionally for a single taxonomy
+ * @param taxonomy Taxonomy slug (e.g., "category", "post_tag")
+ * @returns The terms, or an empty array when none were embedded
+ * @example
+ * const post = await wp.posts.get(1, "view", ["wp:term"]);
+ * const categories = getTerms(post, "category").map((term) => term.name);
+ */
+export function getTerms(
+  item: WPWithEmbeds,
+  taxonomy?: string
+): WPEmbeddedTerm[] {
+  return ([] as WPEmbeddedTerm[])
+    .concat(...(item._embedded?.["wp:term"] || []))
+    .filter(isEmbeddedResource)
+    .filter((term) => !taxonomy || term.taxonomy === taxonomy);
+}
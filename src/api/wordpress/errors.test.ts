@@ -1,5 +1,14 @@
-import { describe, it, expect } from "vitest";
-import { WPApiError, handleApiError } from "./errors";
+import { describe, it, expect, vi } from "vitest";
+import { mockGlobalFetch } from "../../../tests/helpers";
+import {
+  WPAbortError,
+  WPApiError,
+  WPError,
+  WPNetworkError,
+  WPParseError,
+  handleApiError,
+} from "./errors";
+import { apiGet, apiPost, createApiClient } from "./http";
 
 describe("WPApiError", () => {
   it("should create error with status code and message", () => {
@@ -215,3 +224,97 @@ describe("handleApiError", () => {
     }
   });
 });
+
+describe("Error classification", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  mockGlobalFetch();
+
+  it("should wrap fetch failures in WPNetworkError", async () => {
+    const cause = new TypeError("fetch failed");
+    (global.fetch as any).mockRejectedValue(cause);
+
+    const error: any = await apiGet(baseUrl, "/wp/v2/posts").catch((e) => e);
+
+    expect(error).toBeInstanceOf(WPNetworkError);
+    expect(error).toBeInstanceOf(WPError);
+    expect(error.message).toBe("fetch failed");
+    expect(error.cause).toBe(cause);
+  });
+
+  it("should raise WPParseError with a body snippet for non-JSON bodies", async () => {
+    (global.fetch as any).mockResolvedValue(
+      new Response("<b>Notice</b>: Undefined index in functions.php", {
+        status: 200,
+        headers: { "content-type": "text/html" },
+      })
+    );
+
+    const error: any = await apiPost(baseUrl, "/wp/v2/posts", {}).catch(
+      (e: any) => e
+    );
+
+    expect(error).toBeInstanceOf(WPParseError);
+    expect(error).toBeInstanceOf(WPError);
+    expect(error.status).toBe(200);
+    expect(error.bodySnippet).toContain("<b>Notice</b>");
+    expect(error.message).toContain("text/html");
+  });
+
+  it("should raise WPAbortError for aborted requests", async () => {
+    const controller = new AbortController();
+    controller.abort("navigated away");
+    (global.fetch as any).mockImplementation(
+      async (_url: string, init: RequestInit) => {
+        throw init.signal!.reason;
+      }
+    );
+
+    const error: any = await apiGet(
+      baseUrl,
+      "/wp/v2/posts",
+      {},
+      undefined,
+      controller.signal
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WPAbortError);
+    expect(error.name).toBe("AbortError");
+    expect(error.cause).toBe("navigated away");
+  });
+
+  it("should raise WPAbortError for custom abort reasons outside fetch", async () => {
+    (global.fetch as any).mockImplementation(
+      async () => new Response(null, { status: 503 })
+    );
+    const api = createApiClient({
+      baseUrl,
+      retry: { baseDelay: 1000, jitter: false },
+    });
+
+    // Before the timeout starts
+    const aborted = new AbortController();
+    aborted.abort("navigated away");
+    const early: any = await api
+      .get("/wp/v2/posts", undefined, { signal: aborted.signal, timeout: 50 })
+      .catch((e) => e);
+
+    // During retry backoff
+    const controller = new AbortController();
+    const request = api
+      .get("/wp/v2/posts", undefined, { signal: controller.signal })
+      .catch((e) => e);
+    await vi.waitFor(() => expect(global.fetch).toHaveBeenCalledOnce());
+    controller.abort("navigated away");
+    const backoff: any = await request;
+
+    for (const error of [early, backoff]) {
+      expect(error).toBeInstanceOf(WPAbortError);
+      expect(error.message).toBe("navigated away");
+    }
+  });
+
+  it("should keep WPApiError under the same base class", async () => {
+    expect(new WPApiError("Not found", 404)).toBeInstanceOf(WPError);
+  });
+});
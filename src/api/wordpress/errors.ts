@@ -1,7 +1,23 @@
+/**
+ * Base class for every error raised by the library, so callers can catch them with one check
+ */
+export class WPError extends Error {
+  /**
+   * Underlying error (fetch TypeError, SyntaxError, abort reason, ...)
+   */
+  public readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = "WPError";
+    this.cause = options?.cause;
+  }
+}
+
 /**
  * Custom error class for WordPress REST API errors
  */
-export class WPApiError extends Error {
+export class WPApiError extends WPError {
   /**
    * HTTP status code
    */
@@ -33,9 +49,10 @@ export class WPApiError extends Error {
       code?: string;
       response?: Response;
       data?: WPApiError["data"];
+      cause?: unknown;
     }
   ) {
-    super(message);
+    super(message, { cause: options?.cause });
     this.name = "WPApiError";
     this.status = status;
     this.code = options?.code;
@@ -156,6 +173,157 @@ export class WPApiError extends Error {
   }
 }
 
+/**
+ * Error thrown when the request never produced a response (DNS failure, connection reset, CORS, ...)
+ */
+export class WPNetworkError extends WPError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "WPNetworkError";
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WPNetworkError);
+    }
+  }
+}
+
+/**
+ * Number of body characters kept on a WPParseError
+ */
+const PARSE_ERROR_SNIPPET_LENGTH = 200;
+
+/**
+ * Error thrown when a successful response body is not valid JSON
+ * (PHP notices, caching plugin pages, HTML error pages, ...)
+ */
+export class WPParseError extends WPError {
+  /**
+   * HTTP status code of the response
+   */
+  public readonly status: number;
+
+  /**
+   * First characters of the response body
+   */
+  public readonly bodySnippet: string;
+
+  /**
+   * Original response from the API
+   */
+  public readonly response?: Response;
+
+  constructor(
+    message: string,
+    status: number,
+    options?: { bodySnippet?: string; response?: Response; cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "WPParseError";
+    this.status = status;
+    this.bodySnippet = options?.bodySnippet ?? "";
+    this.response = options?.response;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WPParseError);
+    }
+  }
+
+  /**
+   * Create WPParseError for a response body, keeping its first characters as `bodySnippet`
+   */
+  static fromBody(
+    message: string,
+    response: Response,
+    body: string,
+    cause?: unknown
+  ): WPParseError {
+    return new WPParseError(message, response.status, {
+      bodySnippet: body.slice(0, PARSE_ERROR_SNIPPET_LENGTH),
+      response,
+      cause,
+    });
+  }
+
+  /**
+   * Convert error to JSON for logging/debugging
+   */
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      status: this.status,
+      bodySnippet: this.bodySnippet,
+    };
+  }
+}
+
+/**
+ * Error thrown when the request is cancelled through its AbortSignal.
+ * Its name stays "AbortError" so existing `error.name === "AbortError"` checks keep working.
+ */
+export class WPAbortError extends WPError {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "AbortError";
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WPAbortError);
+    }
+  }
+}
+
+/**
+ * Error thrown when a request does not complete within its `timeout`
+ */
+export class WPTimeoutError extends WPError {
+  /**
+   * Timeout that elapsed, in milliseconds
+   */
+  public readonly timeout: number;
+
+  constructor(timeout: number) {
+    super(`Request timed out after ${timeout}ms`);
+    this.name = "WPTimeoutError";
+    this.timeout = timeout;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, WPTimeoutError);
+    }
+  }
+
+  /**
+   * Convert error to JSON for logging/debugging
+   */
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      timeout: this.timeout,
+    };
+  }
+}
+
+/**
+ * Wrap an error raised while sending a request (fetch rejection, abort reason, ...)
+ * in the matching WPError subclass. WPErrors are returned unchanged.
+ */
+export function toRequestError(error: unknown, signal?: AbortSignal): WPError {
+  if (error instanceof WPError) return error;
+  if (signal?.aborted && signal.reason instanceof WPError) return signal.reason;
+
+  const message =
+    error instanceof Error ? error.message : String(error ?? "Request failed");
+
+  if (
+    signal?.aborted ||
+    (error as { name?: string } | undefined)?.name === "AbortError"
+  ) {
+    return new WPAbortError(message, { cause: error });
+  }
+
+  return new WPNetworkError(message, { cause: error });
+}
+
 /**
  * Helper function to handle API errors consistently
  */
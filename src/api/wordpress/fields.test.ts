@@ -0,0 +1,65 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createPostsEndpoints, type WPPost } from "./posts";
+import { createTagsEndpoints, type WPTag } from "./tags";
+
+const pagedResponse = (body: unknown) =>
+  jsonResponse(body, 200, { "X-WP-Total": "1", "X-WP-TotalPages": "1" });
+
+describe("Typed _fields", () => {
+  const config = { baseUrl: "https://example.com/wp-json" };
+
+  mockGlobalFetch();
+
+  it("should narrow list items to the requested fields", async () => {
+    (global.fetch as any).mockResolvedValue(
+      pagedResponse([{ id: 1, title: { rendered: "Hello" } }])
+    );
+    const posts = createPostsEndpoints(config);
+
+    const { items } = await posts.list({
+      per_page: 5,
+      _fields: ["id", "title.rendered"],
+    });
+
+    expectTypeOf(items[0]).toEqualTypeOf<{
+      id: number;
+      title: { rendered: string };
+    }>();
+    expect(items[0].title.rendered).toBe("Hello");
+    expect(
+      new URL((global.fetch as any).mock.calls[0][0]).searchParams.get(
+        "_fields"
+      )
+    ).toBe("id,title.rendered");
+  });
+
+  it("should send _fields on single item requests", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 3, count: 2 }));
+    const tags = createTagsEndpoints(config);
+
+    const tag = await tags.get(3, {
+      context: "view",
+      _fields: ["id", "count"],
+    });
+
+    expectTypeOf(tag).toEqualTypeOf<Pick<WPTag, "id" | "count">>();
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/tags/3?context=view&_fields=id%2Ccount"
+    );
+  });
+
+  it("should keep full types without a literal _fields list", async () => {
+    (global.fetch as any).mockImplementation(async () => pagedResponse([]));
+    const posts = createPostsEndpoints(config);
+    const fields: string[] = ["id"];
+
+    const all = await posts.list({ per_page: 5 });
+    const dynamic = await posts.list({ _fields: fields });
+
+    expectTypeOf(all.items).toEqualTypeOf<WPPost[]>();
+    expectTypeOf(dynamic.items).toEqualTypeOf<WPPost[]>();
+    // @ts-expect-error author is an ID, it has no nested fields
+    await posts.list({ _fields: ["id", "author.name"] });
+  });
+});
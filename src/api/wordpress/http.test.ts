@@ -1,8 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
 import {
   buildSearchParams,
   buildUrl,
   buildResourcePath,
+  createApiClient,
   normalizeUrl,
 } from "./http";
 
@@ -246,3 +248,67 @@ describe("buildResourcePath", () => {
     expect(path2).toBe("/wp/v2/posts/revisions");
   });
 });
+
+describe("createApiClient", () => {
+  mockGlobalFetch();
+
+  beforeEach(() => {
+    (global.fetch as any).mockImplementation(async () => jsonResponse({}));
+  });
+
+  it("should apply default context, _fields and headers to GET requests", async () => {
+    const api = createApiClient({
+      baseUrl: "https://example.com/wp-json",
+      defaults: {
+        context: "edit",
+        _fields: ["id", "title"],
+        headers: { "X-Client": "test" },
+      },
+    });
+
+    await api.get("/wp/v2/posts", { per_page: 5 });
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(
+      "https://example.com/wp-json/wp/v2/posts?context=edit&_fields=id%2Ctitle&per_page=5"
+    );
+    expect(init.headers).toMatchObject({ "X-Client": "test" });
+  });
+
+  it("should let explicit params override defaults", async () => {
+    const api = createApiClient({
+      baseUrl: "https://example.com/wp-json",
+      defaults: { context: "edit" },
+    });
+
+    await api.get("/wp/v2/posts/1", { context: "view" });
+
+    const [url] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/posts/1?context=view");
+  });
+
+  it("should skip query defaults for requests that opt out", async () => {
+    const api = createApiClient({
+      baseUrl: "https://example.com/wp-json",
+      defaults: { context: "edit", _fields: ["id", "title"] },
+    });
+
+    await api.get("/wp/v2/settings", undefined, { queryDefaults: false });
+
+    const [url] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/settings");
+  });
+
+  it("should not apply query defaults to write requests", async () => {
+    const api = createApiClient({
+      baseUrl: "https://example.com/wp-json",
+      defaults: { context: "edit" },
+    });
+
+    await api.post("/wp/v2/posts", { title: "Hello" });
+
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/posts");
+    expect(init.method).toBe("POST");
+  });
+});
@@ -1,5 +1,34 @@
-import { WPPaginatedResponse, WPPaginationInfo } from "./types";
-import { handleApiError } from "./errors";
+import {
+  WPEndpointsConfig,
+  WPFetch,
+  WPPaginatedResponse,
+  WPPaginationInfo,
+  WPRequestDefaults,
+  WPContext,
+  WPGetParameters,
+  RequestOptions,
+} from "./types";
+import {
+  WPApiError,
+  WPParseError,
+  WPTimeoutError,
+  toRequestError,
+} from "./errors";
+import { composeMiddleware } from "./middleware";
+import type { HttpMethod, WPMiddleware, WPRequestContext } from "./middleware";
+import {
+  getAbortReason,
+  getRetryDelay,
+  isAbortError,
+  isIdempotentRequest,
+  resolveRetryPolicy,
+  sleep,
+} from "./retry";
+import type { WPRetryOptions } from "./retry";
+import type { WPResponseCache } from "./cache";
+import { dedupeRequest, getInFlightRequests } from "./dedupe";
+import type { WPInFlightRequests } from "./dedupe";
+import type { WPRateLimiter } from "./rate-limit";
 import type { AuthResponse } from "../../auth";
 
 /**
@@ -48,11 +77,17 @@ export function buildSearchParams(
       return;
     }
 
-    // Handle _embed parameter
+    // Handle _embed parameter (true, or a list of link relations to comma-join)
     if (key === "_embed" && value === true) {
       searchParams.append("_embed", "true");
       return;
     }
+    if (key === "_embed" && Array.isArray(value)) {
+      if (value.length > 0) {
+        searchParams.append("_embed", value.join(","));
+      }
+      return;
+    }
 
     // Handle arrays (used for multi-value parameters like categories, tags)
     if (Array.isArray(value)) {
@@ -88,18 +123,130 @@ export function buildUrl(
 export interface ApiRequestConfig {
   baseUrl: string;
   path: string;
-  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  method?: HttpMethod;
   params?: Record<string, any>;
   body?: any;
   auth?: AuthResponse;
   headers?: HeadersInit;
   signal?: AbortSignal;
+  middleware?: WPMiddleware[];
+  retry?: WPRetryOptions | boolean;
+  limiter?: WPRateLimiter;
+  cache?: WPResponseCache;
+  dedupe?: boolean;
+  /**
+   * Requests `dedupe` may join. createApiClient shares one set per endpoints config.
+   */
+  inFlight?: WPInFlightRequests;
+  timeout?: number;
+  fetch?: WPFetch;
+}
+
+/**
+ * Convert any HeadersInit into a plain header record
+ */
+export function toHeaderRecord(headers?: HeadersInit): Record<string, string> {
+  if (!headers) return {};
+  if (Array.isArray(headers)) return Object.fromEntries(headers);
+  if (typeof Headers !== "undefined" && headers instanceof Headers) {
+    const record: Record<string, string> = {};
+    headers.forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+  return { ...(headers as Record<string, string>) };
+}
+
+/**
+ * Number of identity hashes kept, so each token is only hashed once while in use
+ */
+const MAX_IDENTITY_HASHES = 1000;
+
+/**
+ * SHA-256 (hex) of recently used identities
+ */
+const identityHashes = new Map<string, Promise<string>>();
+
+/**
+ * Hash an identity so credentials never appear in cache or deduplication keys.
+ * SHA-256 keeps different credentials from sharing keys, even in a store shared by many users.
+ */
+function hashIdentity(identity: string): Promise<string> {
+  let hash = identityHashes.get(identity);
+  if (!hash) {
+    hash = crypto.subtle
+      .digest("SHA-256", new TextEncoder().encode(identity))
+      .then((digest) =>
+        Array.from(new Uint8Array(digest), (byte) =>
+          byte.toString(16).padStart(2, "0")
+        ).join("")
+      );
+    identityHashes.set(identity, hash);
+    while (identityHashes.size > MAX_IDENTITY_HASHES) {
+      identityHashes.delete(identityHashes.keys().next().value as string);
+    }
+  }
+  return hash;
+}
+
+/**
+ * Identities of providers that neither declare one nor send headers
+ */
+const providerIds = new WeakMap<AuthResponse, string>();
+let nextProviderId = 0;
+
+/**
+ * Describe the credentials a request is made with: `auth.identity`, falling back to the
+ * auth headers for custom providers. Returns "" for anonymous requests.
+ * The result may contain secrets; use `getAuthIdentity` for anything stored.
+ */
+export function resolveAuthIdentity(auth?: AuthResponse): string {
+  if (!auth) return "";
+  if (auth.identity !== undefined) return auth.identity;
+
+  const entries = Object.entries(toHeaderRecord(auth.headers)).sort(
+    ([a], [b]) => a.localeCompare(b)
+  );
+  if (entries.length) return `headers:${JSON.stringify(entries)}`;
+
+  // e.g. a provider that only signs requests: never share anonymous responses
+  let id = providerIds.get(auth);
+  if (!id) {
+    id = `provider-${nextProviderId++}`;
+    providerIds.set(auth, id);
+  }
+  return id;
+}
+
+/**
+ * Identify the credentials a request is made with, without exposing them
+ * @returns The SHA-256 of the identity (hex), or "anonymous"
+ */
+export async function getAuthIdentity(auth?: AuthResponse): Promise<string> {
+  const identity = resolveAuthIdentity(auth);
+  return identity ? hashIdentity(identity) : "anonymous";
 }
 
 /**
- * Make an API request with authentication and error handling
+ * Whether a body can be sent to fetch as-is (multipart uploads, raw strings, ...)
  */
-export async function makeApiRequest(config: ApiRequestConfig): Promise<Response> {
+function isRawBody(body: unknown): body is BodyInit {
+  return (
+    typeof body === "string" ||
+    (typeof FormData !== "undefined" && body instanceof FormData) ||
+    (typeof Blob !== "undefined" && body instanceof Blob) ||
+    (typeof URLSearchParams !== "undefined" &&
+      body instanceof URLSearchParams) ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body)
+  );
+}
+
+/**
+ * Build the middleware context for a request, applying auth headers and body serialization
+ */
+function createRequestContext(config: ApiRequestConfig): WPRequestContext {
   const {
     baseUrl,
     path,
@@ -107,54 +254,420 @@ export async function makeApiRequest(config: ApiRequestConfig): Promise<Response
     params,
     body,
     auth,
-    headers = {},
+    headers,
     signal,
   } = config;
 
-  const url = buildUrl(baseUrl, path, params);
-
-  // Call beforeRequest hook if available
-  await auth?.beforeRequest?.();
-
-  const requestInit: RequestInit = {
+  const ctx: WPRequestContext = {
+    url: buildUrl(baseUrl, path, params),
     method,
     headers: {
-      ...headers,
-      ...auth?.headers,
+      ...toHeaderRecord(headers),
+      ...toHeaderRecord(auth?.headers),
     },
     signal,
+    config,
+    state: {},
   };
+  if (auth?.credentials) ctx.credentials = auth.credentials;
 
   // Add body for POST/PUT/PATCH requests
   if (body && (method === "POST" || method === "PUT" || method === "PATCH")) {
-    requestInit.body = JSON.stringify(body);
-    const headersObj = headers as Record<string, string>;
-    if (!headersObj["Content-Type"]) {
-      requestInit.headers = {
-        ...requestInit.headers,
-        "Content-Type": "application/json",
-      };
+    if (isRawBody(body)) {
+      // fetch sets the Content-Type (and multipart boundary) itself
+      ctx.body = body;
+    } else {
+      ctx.body = JSON.stringify(body);
+      if (!ctx.headers["Content-Type"]) {
+        ctx.headers["Content-Type"] = "application/json";
+      }
     }
   }
 
-  const response = await fetch(url, requestInit);
+  return ctx;
+}
+
+/**
+ * Terminal pipeline handler that sends the request through `config.fetch` (or the global fetch).
+ * Rejections become WPNetworkError or WPAbortError.
+ */
+const sendRequest = async (ctx: WPRequestContext): Promise<Response> => {
+  // Sign the request exactly as it is sent, after middleware and any limiter wait
+  const signRequest = ctx.config.auth?.signRequest;
+  if (signRequest) await signRequest(ctx);
+
+  try {
+    return await (ctx.config.fetch ?? fetch)(ctx.url, {
+      method: ctx.method,
+      headers: ctx.headers,
+      body: ctx.body,
+      signal: ctx.signal,
+      ...(ctx.credentials && { credentials: ctx.credentials }),
+    });
+  } catch (error) {
+    throw toRequestError(error, ctx.signal);
+  }
+};
+
+/**
+ * Parse a JSON response body, throwing a WPParseError (with a body snippet) when it is not JSON
+ */
+export async function parseJsonResponse<T>(response: Response): Promise<T> {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const contentType = response.headers.get("content-type");
+    throw WPParseError.fromBody(
+      `Invalid JSON in response body${
+        contentType ? ` (content-type: ${contentType})` : ""
+      }`,
+      response,
+      text,
+      error
+    );
+  }
+}
 
-  // Handle errors
-  if (!response.ok) {
-    if (auth?.shouldRefresh && (await auth.shouldRefresh(response))) {
-      await auth.refresh?.();
-      // Retry the request after refresh
-      return makeApiRequest(config);
+/**
+ * Run a single request through middleware, retries and auth hooks
+ * @param prepared Whether `auth.beforeRequest()` already ran for the first attempt
+ */
+async function executeRequest(
+  config: ApiRequestConfig,
+  prepared = false
+): Promise<Response> {
+  const { auth, middleware = [], signal, limiter, cache } = config;
+  const policy = resolveRetryPolicy(config.retry);
+  // Only requests that reach the network consume limiter capacity
+  const pipeline = composeMiddleware(
+    cache ? [...middleware, cache.middleware] : middleware,
+    (ctx) =>
+      limiter
+        ? limiter.schedule(() => sendRequest(ctx), ctx.signal)
+        : sendRequest(ctx)
+  );
+  let refreshes = 0;
+  let skipBeforeRequest = prepared;
+
+  for (let attempt = 1; ; attempt++) {
+    // Call beforeRequest hook if available
+    if (skipBeforeRequest) skipBeforeRequest = false;
+    else await auth?.beforeRequest?.();
+
+    const ctx = createRequestContext(config);
+    const canRetry =
+      policy.retryNonIdempotent || isIdempotentRequest(ctx.method, ctx.headers);
+
+    let response: Response;
+    try {
+      response = await pipeline(ctx);
+    } catch (error) {
+      const delay = canRetry
+        ? getRetryDelay(policy, attempt, error)
+        : undefined;
+      if (delay === undefined) throw error;
+      policy.onRetry?.({ attempt, delay, error });
+      await sleep(delay, signal);
+      continue;
     }
-    await handleApiError(response);
+
+    // Handle errors
+    if (!response.ok) {
+      // Refresh credentials at most `refreshLimit` (default 1) times per request
+      if (
+        refreshes < (auth?.refreshLimit ?? 1) &&
+        auth?.shouldRefresh &&
+        (await auth.shouldRefresh(response))
+      ) {
+        refreshes++;
+        await auth.refresh?.();
+        attempt--;
+        continue;
+      }
+
+      const error = await WPApiError.fromResponse(response);
+      const delay = canRetry
+        ? getRetryDelay(policy, attempt, error, response)
+        : undefined;
+      if (delay === undefined) throw error;
+      policy.onRetry?.({ attempt, delay, error });
+      await sleep(delay, signal);
+      continue;
+    }
+
+    // Call afterRequest hook if available
+    const processedResponse = auth?.afterRequest
+      ? await auth.afterRequest(response)
+      : response;
+
+    return processedResponse;
   }
+}
+
+/**
+ * Make an API request with authentication and error handling.
+ * The request runs through `config.middleware` (in order) before reaching fetch,
+ * and failed attempts are retried according to `config.retry`.
+ * `config.cache` runs last, so cached responses still pass through every middleware.
+ * With `config.dedupe`, concurrent identical GET requests share one network call.
+ * `config.timeout` (ms) covers every attempt and rejects with a WPTimeoutError.
+ */
+export function makeApiRequest(config: ApiRequestConfig): Promise<Response> {
+  const request = config.timeout
+    ? withTimeout(config, config.timeout, dispatchRequest)
+    : dispatchRequest(config);
+
+  // Aborts raised outside fetch (backoff, limiter queue, deduplication) are typed here too,
+  // whatever reason the caller aborted with
+  return request.catch((error) => {
+    throw config.signal?.aborted || isAbortError(error)
+      ? toRequestError(error, config.signal)
+      : error;
+  });
+}
+
+/**
+ * Abort the request with a WPTimeoutError once `timeout` ms have elapsed.
+ * The caller's own signal keeps working and aborts with its own reason.
+ */
+async function withTimeout(
+  config: ApiRequestConfig,
+  timeout: number,
+  run: (config: ApiRequestConfig) => Promise<Response>
+): Promise<Response> {
+  const { signal } = config;
+  if (signal?.aborted) throw getAbortReason(signal);
+
+  const controller = new AbortController();
+  const timeoutError = new WPTimeoutError(timeout);
+  const timer = setTimeout(() => controller.abort(timeoutError), timeout);
+  const onAbort = () => controller.abort(getAbortReason(signal!));
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  try {
+    return await run({ ...config, signal: controller.signal });
+  } catch (error) {
+    // fetch implementations may reject with a generic AbortError instead of the reason
+    if (controller.signal.reason === timeoutError) throw timeoutError;
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Send the request, sharing it with identical in-flight GETs when `config.dedupe` is set
+ */
+async function dispatchRequest(config: ApiRequestConfig): Promise<Response> {
+  const { auth, inFlight } = config;
+  if (!config.dedupe || !inFlight || (config.method || "GET") !== "GET") {
+    return executeRequest(config);
+  }
+
+  // Providers may only set their credentials here (e.g., a JWT login), so key on them afterwards
+  if (auth?.beforeRequest) await auth.beforeRequest();
 
-  // Call afterRequest hook if available
-  const processedResponse = auth?.afterRequest
-    ? await auth.afterRequest(response)
-    : response;
+  const key = `GET ${await getAuthIdentity(auth)} ${buildUrl(
+    config.baseUrl,
+    config.path,
+    config.params
+  )}`;
 
-  return processedResponse;
+  return dedupeRequest(inFlight, key, config.signal, (signal) =>
+    executeRequest({ ...config, signal }, Boolean(auth?.beforeRequest))
+  );
+}
+
+/**
+ * Request description accepted by an ApiClient (baseUrl and auth come from the client)
+ */
+export type ApiClientRequest = Omit<
+  ApiRequestConfig,
+  | "baseUrl"
+  | "auth"
+  | "signal"
+  | "middleware"
+  | "retry"
+  | "limiter"
+  | "cache"
+  | "dedupe"
+  | "inFlight"
+  | "timeout"
+  | "fetch"
+>;
+
+/**
+ * Request helpers bound to a shared endpoints config
+ */
+export interface ApiClient {
+  /**
+   * WordPress REST base URL the client was created with
+   */
+  baseUrl: string;
+  request(
+    config: ApiClientRequest,
+    options?: RequestOptions
+  ): Promise<Response>;
+  get<T>(
+    path: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<T>;
+  getPaginated<T>(
+    path: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<WPPaginatedResponse<T>>;
+  post<T>(path: string, body: any, options?: RequestOptions): Promise<T>;
+  put<T>(path: string, body: any, options?: RequestOptions): Promise<T>;
+  delete<T>(
+    path: string,
+    params?: Record<string, any>,
+    options?: RequestOptions
+  ): Promise<T>;
+}
+
+/**
+ * Fill in default query parameters the caller did not set explicitly
+ */
+function applyParamDefaults(
+  params: Record<string, any> | undefined,
+  defaults?: WPRequestDefaults
+): Record<string, any> | undefined {
+  if (!defaults?.context && !defaults?._fields) return params;
+
+  const merged: Record<string, any> = {
+    context: defaults.context,
+    _fields: defaults._fields,
+  };
+  Object.entries(params || {}).forEach(([key, value]) => {
+    if (value !== undefined) merged[key] = value;
+  });
+
+  return merged;
+}
+
+/**
+ * Create request helpers bound to a baseUrl, auth and per-client defaults.
+ * Every endpoint factory builds its requests through one of these.
+ *
+ * @example
+ * const api = createApiClient({ baseUrl, auth, defaults: { context: "edit" } });
+ * const post = await api.get<WPPost>("/wp/v2/posts/1");
+ */
+export function createApiClient(config: WPEndpointsConfig): ApiClient {
+  const {
+    baseUrl,
+    auth,
+    defaults,
+    middleware,
+    retry,
+    limiter,
+    cache,
+    dedupe,
+    timeout,
+    fetch: fetchImpl,
+  } = config;
+  const inFlight = getInFlightRequests(config);
+
+  const request = (
+    requestConfig: ApiClientRequest,
+    options?: RequestOptions
+  ): Promise<Response> => {
+    const method = requestConfig.method || "GET";
+    return makeApiRequest({
+      ...requestConfig,
+      baseUrl,
+      auth: options?.auth === undefined ? auth : options.auth || undefined,
+      middleware,
+      fetch: fetchImpl,
+      method,
+      params:
+        method === "GET" && options?.queryDefaults !== false
+          ? applyParamDefaults(requestConfig.params, defaults)
+          : requestConfig.params,
+      headers: {
+        ...defaults?.headers,
+        ...(requestConfig.headers as Record<string, string>),
+      },
+      signal: options?.signal,
+      retry: options?.retry ?? retry,
+      limiter:
+        options?.limiter === undefined ? limiter : options.limiter || undefined,
+      cache: options?.cache === undefined ? cache : options.cache || undefined,
+      dedupe: options?.dedupe ?? dedupe,
+      inFlight,
+      timeout: options?.timeout ?? timeout,
+    });
+  };
+
+  return {
+    baseUrl,
+    request,
+
+    get: async <T>(
+      path: string,
+      params?: Record<string, any>,
+      options?: RequestOptions
+    ): Promise<T> => {
+      const response = await request({ path, method: "GET", params }, options);
+      return parseJsonResponse<T>(response);
+    },
+
+    getPaginated: async <T>(
+      path: string,
+      params?: Record<string, any>,
+      options?: RequestOptions
+    ): Promise<WPPaginatedResponse<T>> => {
+      const response = await request({ path, method: "GET", params }, options);
+      const items = await parseJsonResponse<T[]>(response);
+      const pagination = extractPaginationInfo(response, params);
+
+      return { items, pagination };
+    },
+
+    post: async <T>(
+      path: string,
+      body: any,
+      options?: RequestOptions
+    ): Promise<T> => {
+      const response = await request({ path, method: "POST", body }, options);
+      return parseJsonResponse<T>(response);
+    },
+
+    put: async <T>(
+      path: string,
+      body: any,
+      options?: RequestOptions
+    ): Promise<T> => {
+      const response = await request(
+        {
+          path,
+          method: "POST", // WordPress REST API uses POST with X-HTTP-Method-Override
+          body,
+          headers: {
+            "X-HTTP-Method-Override": "PUT",
+          },
+        },
+        options
+      );
+      return parseJsonResponse<T>(response);
+    },
+
+    delete: async <T>(
+      path: string,
+      params?: Record<string, any>,
+      options?: RequestOptions
+    ): Promise<T> => {
+      const response = await request(
+        { path, method: "DELETE", params },
+        options
+      );
+      return parseJsonResponse<T>(response);
+    },
+  };
 }
 
 /**
@@ -167,16 +680,7 @@ export async function apiGet<T>(
   auth?: AuthResponse,
   signal?: AbortSignal
 ): Promise<T> {
-  const response = await makeApiRequest({
-    baseUrl,
-    path,
-    method: "GET",
-    params,
-    auth,
-    signal,
-  });
-
-  return response.json();
+  return createApiClient({ baseUrl, auth }).get<T>(path, params, { signal });
 }
 
 /**
@@ -189,19 +693,9 @@ export async function apiGetPaginated<T>(
   auth?: AuthResponse,
   signal?: AbortSignal
 ): Promise<WPPaginatedResponse<T>> {
-  const response = await makeApiRequest({
-    baseUrl,
-    path,
-    method: "GET",
-    params,
-    auth,
+  return createApiClient({ baseUrl, auth }).getPaginated<T>(path, params, {
     signal,
   });
-
-  const items = await response.json();
-  const pagination = extractPaginationInfo(response, params);
-
-  return { items, pagination };
 }
 
 /**
@@ -214,16 +708,7 @@ export async function apiPost<T>(
   auth?: AuthResponse,
   signal?: AbortSignal
 ): Promise<T> {
-  const response = await makeApiRequest({
-    baseUrl,
-    path,
-    method: "POST",
-    body,
-    auth,
-    signal,
-  });
-
-  return response.json();
+  return createApiClient({ baseUrl, auth }).post<T>(path, body, { signal });
 }
 
 /**
@@ -236,19 +721,7 @@ export async function apiPut<T>(
   auth?: AuthResponse,
   signal?: AbortSignal
 ): Promise<T> {
-  const response = await makeApiRequest({
-    baseUrl,
-    path,
-    method: "POST", // WordPress REST API uses POST with X-HTTP-Method-Override
-    body,
-    auth,
-    signal,
-    headers: {
-      "X-HTTP-Method-Override": "PUT",
-    },
-  });
-
-  return response.json();
+  return createApiClient({ baseUrl, auth }).put<T>(path, body, { signal });
 }
 
 /**
@@ -261,16 +734,9 @@ export async function apiDelete<T>(
   auth?: AuthResponse,
   signal?: AbortSignal
 ): Promise<T> {
-  const response = await makeApiRequest({
-    baseUrl,
-    path,
-    method: "DELETE",
-    params,
-    auth,
+  return createApiClient({ baseUrl, auth }).delete<T>(path, params, {
     signal,
   });
-
-  return response.json();
 }
 
 /**
@@ -306,3 +772,15 @@ export function buildResourcePath(
 ): string {
   return id !== undefined ? `${basePath}/${id}` : basePath;
 }
+
+/**
+ * Query params for a single-item GET, from either the positional `context` and
+ * `embed` arguments or a params object (`{ context, _embed, _fields }`)
+ */
+export function buildItemParams(
+  context?: WPContext | WPGetParameters,
+  embed: boolean | readonly string[] = false
+): WPGetParameters {
+  const params = typeof context === "object" ? context : { context };
+  return embed ? { ...params, _embed: embed } : params;
+}
@@ -3,6 +3,13 @@ export * from "./errors";
 
 // Export HTTP helpers and shared types/utils
 export * from "./http";
+export * from "./middleware";
+export { parseRetryAfter } from "./retry";
+export type { WPRetryOptions } from "./retry";
+export * from "./rate-limit";
+export * from "./cache";
+export { getInFlightRequestCount } from "./dedupe";
+export * from "./embeds";
 export * from "./types";
 export * from "./utils";
 
@@ -19,3 +26,11 @@ export * from "./menus";
 export * from "./settings";
 export * from "./post-types";
 export * from "./post-statuses";
+export * from "./custom-post-types";
+export * from "./terms";
+export * from "./revisions";
+export * from "./autosaves";
+export * from "./application-passwords";
+export * from "./batch";
+export * from "./discovery";
+export * from "./links";
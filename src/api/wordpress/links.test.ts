@@ -0,0 +1,89 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createLinkEndpoints } from "./links";
+import type { WPMedia } from "./media";
+import type { WPTerm } from "./terms";
+import { WPError } from "./errors";
+
+const post = {
+  id: 1,
+  _links: {
+    author: [
+      { embeddable: true, href: "https://example.com/wp-json/wp/v2/users/2" },
+    ],
+    "https://api.w.org/featuredmedia": [
+      { embeddable: true, href: "https://example.com/wp-json/wp/v2/media/9" },
+    ],
+    "wp:term": [
+      {
+        taxonomy: "category",
+        embeddable: true,
+        href: "https://example.com/wp-json/wp/v2/categories?post=1",
+      },
+      {
+        taxonomy: "post_tag",
+        embeddable: true,
+        href: "https://example.com/wp-json/wp/v2/tags?post=1",
+      },
+    ],
+    about: [{ href: "https://evil.example/wp-json/wp/v2/types/post" }],
+    curies: [{ name: "wp", href: "https://api.w.org/{rel}", templated: true }],
+  },
+};
+
+describe("createLinkEndpoints", () => {
+  const auth = { headers: { Authorization: "Bearer token" } };
+  const links = createLinkEndpoints({
+    baseUrl: "https://example.com/wp-json",
+    auth,
+  });
+
+  mockGlobalFetch();
+
+  it("should follow a relation with the client's auth", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 2 }));
+
+    const author = await links.follow(post, "author");
+
+    expect(author.id).toBe(2);
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/users/2");
+    expect(init.headers.Authorization).toBe("Bearer token");
+  });
+
+  it("should resolve relations through curies", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 9 }));
+
+    const media = await links.follow(post, "wp:featuredmedia");
+
+    expectTypeOf(media).toEqualTypeOf<WPMedia>();
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/media/9"
+    );
+  });
+
+  it("should return term collections keyed by taxonomy", async () => {
+    (global.fetch as any).mockImplementation(async (url: string) =>
+      jsonResponse(url.includes("/categories") ? [{ id: 3 }] : [{ id: 4 }])
+    );
+
+    const terms = await links.follow(post, "wp:term", {
+      params: { per_page: 100 },
+    });
+
+    expectTypeOf(terms).toEqualTypeOf<Record<string, WPTerm[]>>();
+    expect(terms.category[0].id).toBe(3);
+    expect(terms.post_tag[0].id).toBe(4);
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/categories?post=1&per_page=100"
+    );
+  });
+
+  it("should refuse links outside the REST root", async () => {
+    await expect(links.follow(post, "about")).rejects.toBeInstanceOf(WPError);
+    await expect(links.follow(post, "replies")).rejects.toThrow(
+      'Resource has no "replies" link'
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
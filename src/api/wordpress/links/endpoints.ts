@@ -0,0 +1,131 @@
+import type {
+  WPFollowOptions,
+  WPLink,
+  WPLinkedResource,
+  WPLinkRelation,
+  WPLinks,
+  WPLinkTarget,
+} from "./types";
+import { WPEndpointsConfig } from "../types";
+import { WPError } from "../errors";
+import { createApiClient, normalizeUrl } from "../http";
+
+/**
+ * Placeholder HAL curie templates use for the relation name
+ */
+const CURIE_PLACEHOLDER = "{rel}";
+
+/**
+ * Find the links for a relation, matching compact (`wp:term`) and full
+ * (`https://api.w.org/term`) relation names through the resource's `curies`
+ */
+function findLinks(links: WPLinks, rel: string): WPLink[] | undefined {
+  if (links[rel]) return links[rel];
+
+  for (const curie of links.curies || []) {
+    if (!curie.name || !curie.href.includes(CURIE_PLACEHOLDER)) continue;
+
+    const [prefix, suffix] = curie.href.split(CURIE_PLACEHOLDER);
+    if (rel.startsWith(`${curie.name}:`)) {
+      const expanded = curie.href.replace(
+        CURIE_PLACEHOLDER,
+        rel.slice(curie.name.length + 1)
+      );
+      if (links[expanded]) return links[expanded];
+    } else if (rel.startsWith(prefix) && rel.endsWith(suffix)) {
+      const compact = `${curie.name}:${rel.slice(
+        prefix.length,
+        rel.length - suffix.length
+      )}`;
+      if (links[compact]) return links[compact];
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * HAL link endpoints
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ */
+export const createLinkEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+  const restRoot = normalizeUrl(config.baseUrl, "/");
+
+  /**
+   * Turn a link into a path and params for the API client.
+   * Only links under the REST root are followed, so credentials never leave the site.
+   */
+  const toRequest = (href: string, params?: Record<string, any>) => {
+    if (!href.startsWith(restRoot)) {
+      throw new WPError(`Cannot follow a link outside the REST root: ${href}`);
+    }
+
+    const [path, query = ""] = href.slice(restRoot.length).split("?");
+    const linkParams: Record<string, string | string[]> = {};
+    new URLSearchParams(query).forEach((value, key) => {
+      const current = linkParams[key];
+      linkParams[key] =
+        current === undefined ? value : ([] as string[]).concat(current, value);
+    });
+
+    return { path: `/${path}`, params: { ...linkParams, ...params } };
+  };
+
+  const fetchLink = <T>(link: WPLink, options: WPFollowOptions = {}) => {
+    const { params, ...requestOptions } = options;
+    const request = toRequest(link.href, params);
+    // Links already carry the query they need
+    return api.get<T>(request.path, request.params, {
+      queryDefaults: false,
+      ...requestOptions,
+    });
+  };
+
+  return {
+    /**
+     * Follow a link relation of a resource, reusing the client's auth, middleware and cache.
+     * `wp:term` resolves to the terms of every linked taxonomy, keyed by taxonomy slug.
+     * @param resource Any resource with `_links` (post, page, media, comment, user, ...)
+     * @param rel Link relation, compact (`wp:featuredmedia`) or full (`https://api.w.org/featuredmedia`)
+     * @param options Optional query params and request options (e.g., signal for aborting)
+     * @example
+     * const post = await wp.posts.get(1);
+     *
+     * const image = await wp.links.follow(post, "wp:featuredmedia"); // WPMedia
+     * const author = await wp.links.follow(post, "author"); // WPUser
+     * const comments = await wp.links.follow(post, "replies", {
+     *   params: { per_page: 50 },
+     * }); // WPComment[]
+     * const { category, post_tag } = await wp.links.follow(post, "wp:term");
+     */
+    follow: async <
+      R extends WPLinkRelation | (string & {}),
+      T = WPLinkTarget<R>
+    >(
+      resource: WPLinkedResource,
+      rel: R,
+      options?: WPFollowOptions
+    ): Promise<T> => {
+      const links = findLinks(resource._links || {}, rel);
+      if (!links?.length) {
+        throw new WPError(`Resource has no "${rel}" link`);
+      }
+
+      // Posts link one term collection per taxonomy
+      if (rel === "wp:term" || links.some((link) => link.taxonomy)) {
+        const collections = await Promise.all(
+          links.map((link) => fetchLink<unknown[]>(link, options))
+        );
+        return Object.fromEntries(
+          links.map((link, index) => [
+            link.taxonomy || String(index),
+            collections[index],
+          ])
+        ) as T;
+      }
+
+      return fetchLink<T>(links[0], options);
+    },
+  };
+};
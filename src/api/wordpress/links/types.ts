@@ -0,0 +1,80 @@
+import type { RequestOptions } from "../types";
+import type { WPUser } from "../users/types";
+import type { WPMedia } from "../media/types";
+import type { WPComment } from "../comments/types";
+import type { WPTerm } from "../terms/types";
+import type { WPRevision } from "../revisions/types";
+
+export type { RequestOptions } from "../types";
+
+/**
+ * A single HAL link from a resource's `_links`
+ */
+export interface WPLink {
+  href: string;
+  embeddable?: boolean;
+  /**
+   * Taxonomy slug, set on `wp:term` links.
+   */
+  taxonomy?: string;
+  /**
+   * Number of revisions, set on `version-history` links.
+   */
+  count?: number;
+  id?: number;
+  /**
+   * Prefix of a `curies` entry (e.g., "wp").
+   */
+  name?: string;
+  templated?: boolean;
+}
+
+/**
+ * The `_links` object of a resource, keyed by link relation
+ */
+export type WPLinks = Record<string, WPLink[] | undefined>;
+
+/**
+ * Any resource with HAL links (posts, pages, media, comments, users, terms, ...)
+ */
+export interface WPLinkedResource {
+  _links?: WPLinks;
+}
+
+/**
+ * What each link relation resolves to
+ */
+export interface WPLinkTargets {
+  author: WPUser;
+  "wp:featuredmedia": WPMedia;
+  "wp:attachment": WPMedia[];
+  replies: WPComment[];
+  "version-history": WPRevision[];
+  "predecessor-version": WPRevision;
+  /**
+   * Terms keyed by taxonomy slug (e.g., `category`, `post_tag`)
+   */
+  "wp:term": Record<string, WPTerm[]>;
+}
+
+/**
+ * Link relations with a known target type
+ */
+export type WPLinkRelation = keyof WPLinkTargets;
+
+/**
+ * Resolved type of a link relation; unknown for relations without a typed target
+ */
+export type WPLinkTarget<R extends string> = R extends WPLinkRelation
+  ? WPLinkTargets[R]
+  : unknown;
+
+/**
+ * Options for follow()
+ */
+export interface WPFollowOptions extends RequestOptions {
+  /**
+   * Extra query parameters, merged over the ones in the link (e.g., `{ per_page: 100 }`).
+   */
+  params?: Record<string, any>;
+}
@@ -5,32 +5,29 @@ import type {
   WPMediaUpdate,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
+import {
+  WPContext,
+  WPEmbeds,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
 import { createPaginationHelpers } from "../utils";
-import { handleApiError } from "../errors";
-import { apiGet, apiGetPaginated, apiPut, apiDelete, buildResourcePath } from "../http";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
 
 /**
  * Base path for WordPress media API endpoints
  */
 const BASE_PATH = "/wp/v2/media";
 
-/**
- * Media API endpoints configuration
- */
-interface MediaEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Media API endpoints
  */
-export const createMediaEndpoints = ({
-  baseUrl,
-  auth,
-}: MediaEndpointsConfig) => {
+export const createMediaEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of media items
@@ -48,23 +45,21 @@ export const createMediaEndpoints = ({
      * const controller = new AbortController();
      * const media = await api.media.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPMediaParameters,
+    list: async <F extends string = never, E extends string = never>(
+      params?: WPFieldsParams<WPMediaParameters, WPMedia, F, E>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPMedia>> => {
-      return apiGetPaginated<WPMedia>(
-        baseUrl,
+    ): Promise<WPPaginatedResponse<WPEmbeds<WPFields<WPMedia, F>, E>>> => {
+      return api.getPaginated<WPEmbeds<WPFields<WPMedia, F>, E>>(
         BASE_PATH,
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
     /**
      * Get a single media item by ID
      * @param id The media ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the media item data
      * @example
@@ -75,17 +70,15 @@ export const createMediaEndpoints = ({
      * const controller = new AbortController();
      * const media = await api.media.get(123, 'view', { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never, E extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPMedia, F, E>,
       options?: RequestOptions
-    ): Promise<WPMedia> => {
-      return apiGet<WPMedia>(
-        baseUrl,
+    ): Promise<WPEmbeds<WPFields<WPMedia, F>, E>> => {
+      return api.get<WPEmbeds<WPFields<WPMedia, F>, E>>(
         buildResourcePath(BASE_PATH, id),
-        { context },
-        auth,
-        options?.signal
+        buildItemParams(context),
+        options
       );
     },
 
@@ -116,7 +109,6 @@ export const createMediaEndpoints = ({
       data: WPMediaCreate,
       options?: RequestOptions
     ): Promise<WPMedia> => {
-      const url = `${baseUrl}${BASE_PATH}`;
       const formData = new FormData();
       formData.append("file", data.file);
 
@@ -127,27 +119,8 @@ export const createMediaEndpoints = ({
         }
       });
 
-      await auth?.beforeRequest?.();
-
-      const response = await fetch(url, {
-        method: "POST",
-        headers: auth?.headers || {},
-        body: formData,
-        signal: options?.signal,
-      });
-
-      if (!response.ok) {
-        if (auth?.shouldRefresh && (await auth.shouldRefresh(response))) {
-          await auth.refresh?.();
-          return endpoints.create(data, options);
-        }
-        await handleApiError(response);
-      }
-
-      const processedResponse = auth?.afterRequest
-        ? await auth.afterRequest(response)
-        : response;
-      return processedResponse.json();
+      // FormData is sent as-is so fetch can set the multipart boundary
+      return api.post<WPMedia>(BASE_PATH, formData, options);
     },
 
     /**
@@ -176,13 +149,7 @@ export const createMediaEndpoints = ({
       data: WPMediaUpdate,
       options?: RequestOptions
     ): Promise<WPMedia> => {
-      return apiPut<WPMedia>(
-        baseUrl,
-        buildResourcePath(BASE_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPMedia>(buildResourcePath(BASE_PATH, id), data, options);
     },
 
     /**
@@ -208,18 +175,18 @@ export const createMediaEndpoints = ({
       options?: RequestOptions
     ): Promise<WPMedia> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPMedia>(
-        baseUrl,
+      return api.delete<WPMedia>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
   };
 
   // Add pagination helpers
-  const paginationHelpers = createPaginationHelpers(endpoints.list);
+  const paginationHelpers = createPaginationHelpers<WPMedia, WPMediaParameters>(
+    endpoints.list
+  );
   return {
     ...endpoints,
     ...paginationHelpers,
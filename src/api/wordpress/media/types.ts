@@ -1,4 +1,4 @@
-import { WPBaseParameters, WPEmbeddable } from "../types";
+import { WPBaseParameters, WPEmbeddable, WPEmbeddedResources } from "../types";
 
 export type { RequestOptions } from "../types";
 
@@ -138,6 +138,10 @@ export interface WPMedia extends WPEmbeddable {
    * Media details.
    */
   media_details: WPMediaDetails;
+  /**
+   * Embedded resources, only present when _embed is requested.
+   */
+  _embedded?: WPEmbeddedResources;
 }
 
 // POST/CREATE request type
@@ -9,16 +9,15 @@ import type {
   WPMenuItemUpdate,
   RequestOptions,
 } from "./types";
-import type { WPPaginatedResponse } from "../types";
-import type { AuthResponse } from "../../../auth";
-import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+import type {
+  WPContext,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
 
 /**
  * Base paths for WordPress menus API endpoints
@@ -26,22 +25,14 @@ import {
 const MENUS_PATH = "/wp/v2/menus";
 const MENU_ITEMS_PATH = "/wp/v2/menu-items";
 
-/**
- * Menus API endpoints configuration
- */
-interface MenusEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Menus API endpoints
  */
 interface MenuEndpoints {
-  list: (
-    params?: WPMenuParameters,
+  list: <F extends string = never>(
+    params?: WPFieldsParams<WPMenuParameters, WPMenu, F>,
     options?: RequestOptions
-  ) => Promise<WPPaginatedResponse<WPMenu>>;
+  ) => Promise<WPPaginatedResponse<WPFields<WPMenu, F>>>;
   listAll: (
     params?: Omit<WPMenuParameters, "page" | "per_page">,
     options?: RequestOptions
@@ -50,12 +41,12 @@ interface MenuEndpoints {
     params?: WPMenuParameters,
     options?: RequestOptions
   ) => AsyncIterableIterator<WPPaginatedResponse<WPMenu>>;
-  get: (
+  get: <F extends string = never>(
     id: number,
-    context?: "view" | "embed" | "edit",
+    context?: WPContext | WPFieldsParams<WPGetParameters, WPMenu, F>,
     embed?: boolean,
     options?: RequestOptions
-  ) => Promise<WPMenu>;
+  ) => Promise<WPFields<WPMenu, F>>;
   create: (data: WPMenuCreate, options?: RequestOptions) => Promise<WPMenu>;
   update: (
     id: number,
@@ -64,10 +55,10 @@ interface MenuEndpoints {
   ) => Promise<WPMenu>;
   delete: (id: number, options?: RequestOptions) => Promise<WPMenu>;
   items: {
-    list: (
-      params?: WPMenuItemParameters,
+    list: <F extends string = never>(
+      params?: WPFieldsParams<WPMenuItemParameters, WPMenuItem, F>,
       options?: RequestOptions
-    ) => Promise<WPPaginatedResponse<WPMenuItem>>;
+    ) => Promise<WPPaginatedResponse<WPFields<WPMenuItem, F>>>;
     listAll: (
       params?: Omit<WPMenuItemParameters, "page" | "per_page">,
       options?: RequestOptions
@@ -76,12 +67,12 @@ interface MenuEndpoints {
       params?: WPMenuItemParameters,
       options?: RequestOptions
     ) => AsyncIterableIterator<WPPaginatedResponse<WPMenuItem>>;
-    get: (
+    get: <F extends string = never>(
       id: number,
-      context?: "view" | "embed" | "edit",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPMenuItem, F>,
       embed?: boolean,
       options?: RequestOptions
-    ) => Promise<WPMenuItem>;
+    ) => Promise<WPFields<WPMenuItem, F>>;
     create: (
       data: WPMenuItemCreate,
       options?: RequestOptions
@@ -95,10 +86,9 @@ interface MenuEndpoints {
   };
 }
 
-export const createMenuEndpoints = ({
-  baseUrl,
-  auth,
-}: MenusEndpointsConfig) => {
+export const createMenuEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints: MenuEndpoints = {
     /**
      * Get a list of menus
@@ -113,17 +103,11 @@ export const createMenuEndpoints = ({
      * const controller = new AbortController();
      * const menus = await api.menus.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPMenuParameters,
+    list: async <F extends string = never>(
+      params?: WPFieldsParams<WPMenuParameters, WPMenu, F>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPMenu>> => {
-      return apiGetPaginated<WPMenu>(
-        baseUrl,
-        MENUS_PATH,
-        params,
-        auth,
-        options?.signal
-      );
+    ): Promise<WPPaginatedResponse<WPFields<WPMenu, F>>> => {
+      return api.getPaginated<WPFields<WPMenu, F>>(MENUS_PATH, params, options);
     },
 
     /**
@@ -205,7 +189,7 @@ export const createMenuEndpoints = ({
     /**
      * Get a single menu by ID
      * @param id The menu ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param embed Whether to embed related resources
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the menu data
@@ -217,19 +201,16 @@ export const createMenuEndpoints = ({
      * const controller = new AbortController();
      * const menu = await api.menus.get(123, 'view', false, { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPMenu, F>,
       embed: boolean = false,
       options?: RequestOptions
-    ): Promise<WPMenu> => {
-      const params = { context, ...(embed && { _embed: true }) };
-      return apiGet<WPMenu>(
-        baseUrl,
+    ): Promise<WPFields<WPMenu, F>> => {
+      return api.get<WPFields<WPMenu, F>>(
         buildResourcePath(MENUS_PATH, id),
-        params,
-        auth,
-        options?.signal
+        buildItemParams(context, embed),
+        options
       );
     },
 
@@ -256,7 +237,7 @@ export const createMenuEndpoints = ({
       data: WPMenuCreate,
       options?: RequestOptions
     ): Promise<WPMenu> => {
-      return apiPost<WPMenu>(baseUrl, MENUS_PATH, data, auth, options?.signal);
+      return api.post<WPMenu>(MENUS_PATH, data, options);
     },
 
     /**
@@ -282,13 +263,7 @@ export const createMenuEndpoints = ({
       data: WPMenuUpdate,
       options?: RequestOptions
     ): Promise<WPMenu> => {
-      return apiPut<WPMenu>(
-        baseUrl,
-        buildResourcePath(MENUS_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPMenu>(buildResourcePath(MENUS_PATH, id), data, options);
     },
 
     /**
@@ -305,12 +280,10 @@ export const createMenuEndpoints = ({
      * await api.menus.delete(123, { signal: controller.signal });
      */
     delete: async (id: number, options?: RequestOptions): Promise<WPMenu> => {
-      return apiDelete<WPMenu>(
-        baseUrl,
+      return api.delete<WPMenu>(
         buildResourcePath(MENUS_PATH, id),
         undefined,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -328,16 +301,14 @@ export const createMenuEndpoints = ({
        * const controller = new AbortController();
        * const items = await api.menus.items.list({ menus: [123] }, { signal: controller.signal });
        */
-      list: async (
-        params?: WPMenuItemParameters,
+      list: async <F extends string = never>(
+        params?: WPFieldsParams<WPMenuItemParameters, WPMenuItem, F>,
         options?: RequestOptions
-      ): Promise<WPPaginatedResponse<WPMenuItem>> => {
-        return apiGetPaginated<WPMenuItem>(
-          baseUrl,
+      ): Promise<WPPaginatedResponse<WPFields<WPMenuItem, F>>> => {
+        return api.getPaginated<WPFields<WPMenuItem, F>>(
           MENU_ITEMS_PATH,
           params,
-          auth,
-          options?.signal
+          options
         );
       },
 
@@ -420,7 +391,7 @@ export const createMenuEndpoints = ({
       /**
        * Get a single menu item by ID
        * @param id The menu item ID
-       * @param context Optional context to determine fields in response
+       * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
        * @param embed Whether to embed related resources
        * @param options Optional request options (e.g., signal for aborting)
        * @returns Promise with the menu item data
@@ -432,19 +403,16 @@ export const createMenuEndpoints = ({
        * const controller = new AbortController();
        * const item = await api.menus.items.get(456, 'view', false, { signal: controller.signal });
        */
-      get: async (
+      get: async <F extends string = never>(
         id: number,
-        context: "view" | "embed" | "edit" = "view",
+        context?: WPContext | WPFieldsParams<WPGetParameters, WPMenuItem, F>,
         embed: boolean = false,
         options?: RequestOptions
-      ): Promise<WPMenuItem> => {
-        const params = { context, ...(embed && { _embed: true }) };
-        return apiGet<WPMenuItem>(
-          baseUrl,
+      ): Promise<WPFields<WPMenuItem, F>> => {
+        return api.get<WPFields<WPMenuItem, F>>(
           buildResourcePath(MENU_ITEMS_PATH, id),
-          params,
-          auth,
-          options?.signal
+          buildItemParams(context, embed),
+          options
         );
       },
 
@@ -473,13 +441,7 @@ export const createMenuEndpoints = ({
         data: WPMenuItemCreate,
         options?: RequestOptions
       ): Promise<WPMenuItem> => {
-        return apiPost<WPMenuItem>(
-          baseUrl,
-          MENU_ITEMS_PATH,
-          data,
-          auth,
-          options?.signal
-        );
+        return api.post<WPMenuItem>(MENU_ITEMS_PATH, data, options);
       },
 
       /**
@@ -505,12 +467,10 @@ export const createMenuEndpoints = ({
         data: WPMenuItemUpdate,
         options?: RequestOptions
       ): Promise<WPMenuItem> => {
-        return apiPut<WPMenuItem>(
-          baseUrl,
+        return api.put<WPMenuItem>(
           buildResourcePath(MENU_ITEMS_PATH, id),
           data,
-          auth,
-          options?.signal
+          options
         );
       },
 
@@ -531,12 +491,10 @@ export const createMenuEndpoints = ({
         id: number,
         options?: RequestOptions
       ): Promise<WPMenuItem> => {
-        return apiDelete<WPMenuItem>(
-          baseUrl,
+        return api.delete<WPMenuItem>(
           buildResourcePath(MENU_ITEMS_PATH, id),
           undefined,
-          auth,
-          options?.signal
+          options
         );
       },
     },
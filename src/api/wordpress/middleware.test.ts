@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { makeApiRequest } from "./http";
+import { createMediaEndpoints } from "./media";
+import type { WPMiddleware } from "./middleware";
+
+describe("Middleware pipeline", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  beforeEach(() => {
+    global.fetch = vi
+      .fn()
+      .mockImplementation(async () => new Response(JSON.stringify({ id: 1 })));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should run middleware in order around fetch", async () => {
+    const calls: string[] = [];
+    const first: WPMiddleware = async (_ctx, next) => {
+      calls.push("first:before");
+      const response = await next();
+      calls.push("first:after");
+      return response;
+    };
+    const second: WPMiddleware = async (_ctx, next) => {
+      calls.push("second:before");
+      const response = await next();
+      calls.push("second:after");
+      return response;
+    };
+
+    await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts",
+      middleware: [first, second],
+    });
+
+    expect(calls).toEqual([
+      "first:before",
+      "second:before",
+      "second:after",
+      "first:after",
+    ]);
+  });
+
+  it("should let middleware rewrite the URL, headers and body", async () => {
+    const rewrite: WPMiddleware = async (ctx, next) => {
+      ctx.url = ctx.url.replace("example.com", "staging.example.com");
+      ctx.headers["X-Trace-Id"] = "trace-1";
+      ctx.body = JSON.stringify({ title: "Rewritten" });
+      return next();
+    };
+
+    await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts",
+      method: "POST",
+      body: { title: "Original" },
+      middleware: [rewrite],
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://staging.example.com/wp-json/wp/v2/posts",
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          "X-Trace-Id": "trace-1",
+          "Content-Type": "application/json",
+        }),
+        body: JSON.stringify({ title: "Rewritten" }),
+      })
+    );
+  });
+
+  it("should short-circuit with a response without calling fetch", async () => {
+    const cached = new Response(JSON.stringify({ id: 42 }), { status: 200 });
+    const cache: WPMiddleware = async () => cached;
+
+    const response = await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts/42",
+      middleware: [cache],
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(await response.json()).toEqual({ id: 42 });
+  });
+
+  it("should expose the response to earlier middleware", async () => {
+    let seenStatus: number | undefined;
+    const inspect: WPMiddleware = async (ctx, next) => {
+      await next();
+      seenStatus = ctx.response?.status;
+      return new Response("{}", { status: 200 });
+    };
+    (global.fetch as any).mockResolvedValue(
+      new Response("{}", { status: 201 })
+    );
+
+    await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts",
+      middleware: [inspect],
+    });
+
+    expect(seenStatus).toBe(201);
+  });
+
+  it("should send media uploads through the pipeline", async () => {
+    const seen: string[] = [];
+    const media = createMediaEndpoints({
+      baseUrl,
+      middleware: [
+        async (ctx, next) => {
+          seen.push(`${ctx.method} ${ctx.url}`);
+          expect(ctx.body).toBeInstanceOf(FormData);
+          expect(ctx.headers["Content-Type"]).toBeUndefined();
+          return next();
+        },
+      ],
+    });
+
+    await media.create({
+      file: new Blob(["image"], { type: "image/png" }),
+      title: "Upload",
+    });
+
+    expect(seen).toEqual(["POST https://example.com/wp-json/wp/v2/media"]);
+  });
+});
@@ -0,0 +1,90 @@
+import type { ApiRequestConfig } from "./http";
+
+/**
+ * HTTP methods supported by the request pipeline
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * Mutable request context passed through the middleware chain
+ */
+export interface WPRequestContext {
+  /**
+   * Fully built request URL (including query string). Middleware may rewrite it.
+   */
+  url: string;
+  /**
+   * HTTP method sent to the server
+   */
+  method: HttpMethod;
+  /**
+   * Outgoing request headers (auth headers already applied)
+   */
+  headers: Record<string, string>;
+  /**
+   * Serialized request body
+   */
+  body?: BodyInit | null;
+  /**
+   * AbortSignal forwarded to fetch
+   */
+  signal?: AbortSignal;
+  /**
+   * Fetch credentials mode (set from the auth provider, e.g. "include" for cookie auth)
+   */
+  credentials?: RequestCredentials;
+  /**
+   * Original request config, for middleware that needs the path or params
+   */
+  readonly config: ApiRequestConfig;
+  /**
+   * Response returned by the rest of the chain, set once next() resolves
+   */
+  response?: Response;
+  /**
+   * Free-form storage for middleware to share data during a request
+   */
+  state: Record<string, unknown>;
+}
+
+/**
+ * Koa/undici-style middleware. Call `next()` to continue the chain, or return
+ * a Response without calling it to short-circuit (e.g., from a cache).
+ * `next()` may be called more than once to re-send the request.
+ *
+ * @example
+ * const logger: WPMiddleware = async (ctx, next) => {
+ *   const started = Date.now();
+ *   const response = await next();
+ *   console.log(ctx.method, ctx.url, response.status, Date.now() - started);
+ *   return response;
+ * };
+ */
+export type WPMiddleware = (
+  ctx: WPRequestContext,
+  next: () => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * Compose middleware into a single handler that ends with `handler`
+ * @param middleware Middleware in the order they should run
+ * @param handler Terminal handler (usually the fetch call)
+ */
+export function composeMiddleware(
+  middleware: WPMiddleware[],
+  handler: (ctx: WPRequestContext) => Promise<Response>
+): (ctx: WPRequestContext) => Promise<Response> {
+  return (ctx) => {
+    const dispatch = async (index: number): Promise<Response> => {
+      const current = middleware[index];
+      const response = current
+        ? await current(ctx, () => dispatch(index + 1))
+        : await handler(ctx);
+
+      ctx.response = response;
+      return response;
+    };
+
+    return dispatch(0);
+  };
+}
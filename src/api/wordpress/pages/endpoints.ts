@@ -5,38 +5,34 @@ import type {
   WPPageUpdate,
   RequestOptions,
 } from "./types";
-import type { WPPaginatedResponse } from "../types";
-import type { AuthResponse } from "../../../auth";
-import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+import type {
+  WPContext,
+  WPEmbeds,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
+import { createRevisionEndpoints } from "../revisions/endpoints";
+import { createAutosaveEndpoints } from "../autosaves/endpoints";
+import type { WPRevision } from "../revisions/types";
 
 /**
  * Base path for WordPress pages API endpoints
  */
 const BASE_PATH = "/wp/v2/pages";
 
-/**
- * Pages API endpoints configuration
- */
-interface PagesEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Pages API endpoints
  */
-export const createPageEndpoints = ({
-  baseUrl,
-  auth,
-}: PagesEndpointsConfig) => {
-  const buildPageQueryParams = (params?: WPPageParameters) => {
+export const createPageEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
+  const buildPageQueryParams = (
+    params?: WPFieldsParams<WPPageParameters, WPPage, string>
+  ) => {
     if (!params) return undefined;
 
     const { custom, ...rest } = params;
@@ -59,16 +55,14 @@ export const createPageEndpoints = ({
      * // Get child pages of a specific parent
      * const pages = await api.pages.list({ parent: [123] });
      */
-    list: async (
-      params?: WPPageParameters,
+    list: async <F extends string = never, E extends string = never>(
+      params?: WPFieldsParams<WPPageParameters, WPPage, F, E>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPPage>> => {
-      return apiGetPaginated<WPPage>(
-        baseUrl,
+    ): Promise<WPPaginatedResponse<WPEmbeds<WPFields<WPPage, F>, E>>> => {
+      return api.getPaginated<WPEmbeds<WPFields<WPPage, F>, E>>(
         BASE_PATH,
         buildPageQueryParams(params),
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -148,27 +142,24 @@ export const createPageEndpoints = ({
     /**
      * Get a single page by ID
      * @param id The page ID
-     * @param context Optional context to determine fields in response
-     * @param embed Whether to embed related resources
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
+     * @param embed Whether to embed related resources, or the link relations to embed
      * @param options Optional request options (e.g., AbortSignal)
      * @returns Promise with the page data
      * @example
      * // Get page with ID 123
      * const page = await api.pages.get(123);
      */
-    get: async (
+    get: async <F extends string = never, E extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
-      embed: boolean = false,
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPPage, F, E>,
+      embed: boolean | readonly E[] = false,
       options?: RequestOptions
-    ): Promise<WPPage> => {
-      const params = { context, ...(embed && { _embed: true }) };
-      return apiGet<WPPage>(
-        baseUrl,
+    ): Promise<WPEmbeds<WPFields<WPPage, F>, E>> => {
+      return api.get<WPEmbeds<WPFields<WPPage, F>, E>>(
         buildResourcePath(BASE_PATH, id),
-        params,
-        auth,
-        options?.signal
+        buildItemParams(context, embed),
+        options
       );
     },
 
@@ -196,7 +187,7 @@ export const createPageEndpoints = ({
       data: WPPageCreate,
       options?: RequestOptions
     ): Promise<WPPage> => {
-      return apiPost<WPPage>(baseUrl, BASE_PATH, data, auth, options?.signal);
+      return api.post<WPPage>(BASE_PATH, data, options);
     },
 
     /**
@@ -225,13 +216,7 @@ export const createPageEndpoints = ({
       data: WPPageUpdate,
       options?: RequestOptions
     ): Promise<WPPage> => {
-      return apiPut<WPPage>(
-        baseUrl,
-        buildResourcePath(BASE_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPPage>(buildResourcePath(BASE_PATH, id), data, options);
     },
 
     /**
@@ -257,12 +242,10 @@ export const createPageEndpoints = ({
       options?: RequestOptions
     ): Promise<WPPage> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPPage>(
-        baseUrl,
+      return api.delete<WPPage>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -282,15 +265,15 @@ export const createPageEndpoints = ({
     getRevisions: async (
       id: number,
       options?: RequestOptions
-    ): Promise<WPPage[]> => {
-      return apiGet<WPPage[]>(
-        baseUrl,
-        `${BASE_PATH}/${id}/revisions`,
-        {},
-        auth,
-        options?.signal
-      );
+    ): Promise<WPRevision[]> => {
+      return api.get<WPRevision[]>(`${BASE_PATH}/${id}/revisions`, {}, options);
     },
+
+    // Paginated revisions, single revision, delete and restore
+    ...createRevisionEndpoints<WPPage>(config, BASE_PATH),
+
+    // Autosaves and unsaved-changes detection
+    ...createAutosaveEndpoints(config, BASE_PATH),
   };
 
   return endpoints;
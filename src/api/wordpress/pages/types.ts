@@ -1,4 +1,4 @@
-import { WPEmbeddable, WPBaseParameters } from "../types";
+import { WPEmbeddable, WPEmbeddedResources, WPBaseParameters } from "../types";
 import type { WPYoastHeadJson } from "../../plugins/yoast";
 
 // Re-export shared types
@@ -153,50 +153,9 @@ export interface WPPage extends WPPageBase, WPEmbeddable {
    */
   template: string;
   /**
-   * Embedded resources, only present when _embed=true is requested
-   */
-  _embedded?: {
-    author?: Array<{
-      id: number;
-      name: string;
-      url: string;
-      description: string;
-      link: string;
-      slug: string;
-      avatar_urls: Record<string, string>;
-      _links: WPEmbeddable["_links"];
-    }>;
-    "wp:featuredmedia"?: Array<{
-      id: number;
-      date: string;
-      slug: string;
-      type: string;
-      link: string;
-      title: WPRenderedContent;
-      author: number;
-      caption: WPRenderedContent;
-      alt_text: string;
-      media_type: string;
-      mime_type: string;
-      media_details: {
-        width: number;
-        height: number;
-        file: string;
-        sizes: Record<
-          string,
-          {
-            file: string;
-            width: number;
-            height: number;
-            mime_type: string;
-            source_url: string;
-          }
-        >;
-      };
-      source_url: string;
-      _links: WPEmbeddable["_links"];
-    }>;
-  };
+   * Embedded resources, only present when _embed is requested
+   */
+  _embedded?: WPEmbeddedResources;
   /**
    * Yoast SEO head data (when Yoast is active).
    */
@@ -3,32 +3,21 @@ import type {
   WPPostStatusParameters,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
+import { WPEndpointsConfig, WPPaginatedResponse } from "../types";
 import { createPaginationHelpers } from "../utils";
-import { apiGet } from "../http";
-import { handleApiError } from "../errors";
+import { createApiClient, parseJsonResponse } from "../http";
 
 /**
  * Base path for WordPress post statuses API endpoints
  */
 const BASE_PATH = "/wp/v2/statuses";
 
-/**
- * Post Statuses API endpoints configuration
- */
-interface PostStatusesEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Post Statuses API endpoints
  */
-export const createPostStatusesEndpoints = ({
-  baseUrl,
-  auth,
-}: PostStatusesEndpointsConfig) => {
+export const createPostStatusesEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of post statuses
@@ -47,42 +36,14 @@ export const createPostStatusesEndpoints = ({
       params?: WPPostStatusParameters,
       options?: RequestOptions
     ): Promise<WPPaginatedResponse<WPPostStatus>> => {
-      const searchParams = new URLSearchParams();
-
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          if (value !== undefined) {
-            searchParams.append(key, value.toString());
-          }
-        });
-      }
-
-      const queryString = searchParams.toString();
-      const url = `${baseUrl}${BASE_PATH}${
-        queryString ? `?${queryString}` : ""
-      }`;
-
-      await auth?.beforeRequest?.();
-
-      const response = await fetch(url, {
-        headers: auth?.headers || {},
-        signal: options?.signal,
-      });
-
-      if (!response.ok) {
-        if (auth?.shouldRefresh && (await auth.shouldRefresh(response))) {
-          await auth.refresh?.();
-          return endpoints.list(params, options);
-        }
-        await handleApiError(response);
-      }
-
-      const processedResponse = auth?.afterRequest
-        ? await auth.afterRequest(response)
-        : response;
+      const response = await api.request(
+        { path: BASE_PATH, method: "GET", params },
+        options
+      );
 
-      const items: Record<string, WPPostStatus> =
-        await processedResponse.json();
+      const items = await parseJsonResponse<Record<string, WPPostStatus>>(
+        response
+      );
       // Convert record to array
       const itemsArray = Object.values(items);
       const total = response.headers.get("X-WP-Total");
@@ -116,15 +77,13 @@ export const createPostStatusesEndpoints = ({
      */
     get: async (
       slug: string,
-      context: "view" | "embed" | "edit" = "view",
+      context?: "view" | "embed" | "edit",
       options?: RequestOptions
     ): Promise<WPPostStatus> => {
-      return apiGet<WPPostStatus>(
-        baseUrl,
+      return api.get<WPPostStatus>(
         `${BASE_PATH}/${slug}`,
         { context },
-        auth,
-        options?.signal
+        options
       );
     },
   };
@@ -1,30 +1,19 @@
 import type { WPPostType, WPPostTypeParameters, RequestOptions } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
+import { WPEndpointsConfig, WPPaginatedResponse } from "../types";
 import { createPaginationHelpers } from "../utils";
-import { apiGet } from "../http";
-import { handleApiError } from "../errors";
+import { createApiClient, parseJsonResponse } from "../http";
 
 /**
  * Base path for WordPress post types API endpoints
  */
 const BASE_PATH = "/wp/v2/types";
 
-/**
- * Post Types API endpoints configuration
- */
-interface PostTypesEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Post Types API endpoints
  */
-export const createPostTypesEndpoints = ({
-  baseUrl,
-  auth,
-}: PostTypesEndpointsConfig) => {
+export const createPostTypesEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of post types
@@ -43,41 +32,14 @@ export const createPostTypesEndpoints = ({
       params?: WPPostTypeParameters,
       options?: RequestOptions
     ): Promise<WPPaginatedResponse<WPPostType>> => {
-      const searchParams = new URLSearchParams();
-
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          if (value !== undefined) {
-            searchParams.append(key, value.toString());
-          }
-        });
-      }
-
-      const queryString = searchParams.toString();
-      const url = `${baseUrl}${BASE_PATH}${
-        queryString ? `?${queryString}` : ""
-      }`;
-
-      await auth?.beforeRequest?.();
-
-      const response = await fetch(url, {
-        headers: auth?.headers || {},
-        signal: options?.signal,
-      });
-
-      if (!response.ok) {
-        if (auth?.shouldRefresh && (await auth.shouldRefresh(response))) {
-          await auth.refresh?.();
-          return endpoints.list(params, options);
-        }
-        await handleApiError(response);
-      }
-
-      const processedResponse = auth?.afterRequest
-        ? await auth.afterRequest(response)
-        : response;
+      const response = await api.request(
+        { path: BASE_PATH, method: "GET", params },
+        options
+      );
 
-      const items: Record<string, WPPostType> = await processedResponse.json();
+      const items = await parseJsonResponse<Record<string, WPPostType>>(
+        response
+      );
       // Convert record to array
       const itemsArray = Object.values(items);
       const total = response.headers.get("X-WP-Total");
@@ -111,16 +73,10 @@ export const createPostTypesEndpoints = ({
      */
     get: async (
       slug: string,
-      context: "view" | "embed" | "edit" = "view",
+      context?: "view" | "embed" | "edit",
       options?: RequestOptions
     ): Promise<WPPostType> => {
-      return apiGet<WPPostType>(
-        baseUrl,
-        `${BASE_PATH}/${slug}`,
-        { context },
-        auth,
-        options?.signal
-      );
+      return api.get<WPPostType>(`${BASE_PATH}/${slug}`, { context }, options);
     },
   };
 
@@ -5,38 +5,34 @@ import type {
   WPPostUpdate,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
 import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+  WPContext,
+  WPEmbeds,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
+import { createRevisionEndpoints } from "../revisions/endpoints";
+import { createAutosaveEndpoints } from "../autosaves/endpoints";
+import type { WPRevision } from "../revisions/types";
 
 /**
  * Base path for WordPress posts API endpoints
  */
 const BASE_PATH = "/wp/v2/posts";
 
-/**
- * Posts API endpoints configuration
- */
-interface PostsEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Posts API endpoints
  */
-export const createPostsEndpoints = ({
-  baseUrl,
-  auth,
-}: PostsEndpointsConfig) => {
-  const buildPostQueryParams = (params?: WPPostParameters) => {
+export const createPostsEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
+  const buildPostQueryParams = (
+    params?: WPFieldsParams<WPPostParameters, WPPost, string>
+  ) => {
     if (!params) return undefined;
 
     const { taxonomies, custom, ...rest } = params;
@@ -68,24 +64,22 @@ export const createPostsEndpoints = ({
      *   taxonomies: { language: 'en' },
      * });
      *
-     * // Get only specific fields from posts
-     * const posts = await api.posts.list({ _fields: ['id', 'title', 'content'] });
+     * // Get only specific fields from posts (items are typed as Pick<WPPost, 'id' | 'title'>)
+     * const posts = await api.posts.list({ _fields: ['id', 'title'] });
      *
      * // With abort signal to cancel the request
      * const controller = new AbortController();
      * const posts = await api.posts.list({}, { signal: controller.signal });
      * // Later: controller.abort();
      */
-    list: async (
-      params?: WPPostParameters,
+    list: async <F extends string = never, E extends string = never>(
+      params?: WPFieldsParams<WPPostParameters, WPPost, F, E>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPPost>> => {
-      return apiGetPaginated<WPPost>(
-        baseUrl,
+    ): Promise<WPPaginatedResponse<WPEmbeds<WPFields<WPPost, F>, E>>> => {
+      return api.getPaginated<WPEmbeds<WPFields<WPPost, F>, E>>(
         BASE_PATH,
         buildPostQueryParams(params),
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -175,8 +169,8 @@ export const createPostsEndpoints = ({
     /**
      * Get a single post by ID
      * @param id The post ID
-     * @param context Optional context to determine fields in response
-     * @param embed Whether to embed related resources like author, featured media, etc.
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
+     * @param embed Whether to embed related resources like author, featured media, etc., or the link relations to embed
      * @param options Optional request options (e.g., AbortSignal)
      * @returns Promise with the post data
      * @example
@@ -189,23 +183,26 @@ export const createPostsEndpoints = ({
      * // Get post with embedded related resources
      * const post = await api.posts.get(123, 'view', true);
      *
+     * // Embed only the author and featured image (WordPress 5.4+)
+     * const post = await api.posts.get(123, 'view', ['author', 'wp:featuredmedia']);
+     *
+     * // Get only specific fields (typed as { id: number; title: { rendered: string } })
+     * const post = await api.posts.get(123, { _fields: ['id', 'title.rendered'] });
+     *
      * // With abort signal
      * const controller = new AbortController();
      * const post = await api.posts.get(123, 'view', false, { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never, E extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
-      embed: boolean = false,
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPPost, F, E>,
+      embed: boolean | readonly E[] = false,
       options?: RequestOptions
-    ): Promise<WPPost> => {
-      const params = { context, ...(embed && { _embed: true }) };
-      return apiGet<WPPost>(
-        baseUrl,
+    ): Promise<WPEmbeds<WPFields<WPPost, F>, E>> => {
+      return api.get<WPEmbeds<WPFields<WPPost, F>, E>>(
         buildResourcePath(BASE_PATH, id),
-        params,
-        auth,
-        options?.signal
+        buildItemParams(context, embed),
+        options
       );
     },
 
@@ -230,7 +227,7 @@ export const createPostsEndpoints = ({
       data: WPPostCreate,
       options?: RequestOptions
     ): Promise<WPPost> => {
-      return apiPost<WPPost>(baseUrl, BASE_PATH, data, auth, options?.signal);
+      return api.post<WPPost>(BASE_PATH, data, options);
     },
 
     /**
@@ -255,13 +252,7 @@ export const createPostsEndpoints = ({
       data: WPPostUpdate,
       options?: RequestOptions
     ): Promise<WPPost> => {
-      return apiPut<WPPost>(
-        baseUrl,
-        buildResourcePath(BASE_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPPost>(buildResourcePath(BASE_PATH, id), data, options);
     },
 
     /**
@@ -287,12 +278,10 @@ export const createPostsEndpoints = ({
       options?: RequestOptions
     ): Promise<WPPost> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPPost>(
-        baseUrl,
+      return api.delete<WPPost>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -312,15 +301,15 @@ export const createPostsEndpoints = ({
     getRevisions: async (
       id: number,
       options?: RequestOptions
-    ): Promise<WPPost[]> => {
-      return apiGet<WPPost[]>(
-        baseUrl,
-        `${BASE_PATH}/${id}/revisions`,
-        {},
-        auth,
-        options?.signal
-      );
+    ): Promise<WPRevision[]> => {
+      return api.get<WPRevision[]>(`${BASE_PATH}/${id}/revisions`, {}, options);
     },
+
+    // Paginated revisions, single revision, delete and restore
+    ...createRevisionEndpoints<WPPost>(config, BASE_PATH),
+
+    // Autosaves and unsaved-changes detection
+    ...createAutosaveEndpoints(config, BASE_PATH),
   };
 
   return endpoints;
@@ -1,4 +1,4 @@
-import type { WPEmbeddable } from "../types";
+import type { WPEmbeddable, WPEmbeddedResources } from "../types";
 import type { WPYoastHeadJson } from "../../plugins/yoast";
 // Re-export shared types
 export type { RequestOptions } from "../types";
@@ -223,60 +223,9 @@ export interface WPPost extends WPPostBase, WPEmbeddable {
    */
   yoast_head_json?: WPYoastHeadJson;
   /**
-   * Embedded resources, only present when _embed=true is requested
-   */
-  _embedded?: {
-    author?: Array<{
-      id: number;
-      name: string;
-      url: string;
-      description: string;
-      link: string;
-      slug: string;
-      avatar_urls: Record<string, string>;
-      _links: WPEmbeddable["_links"];
-    }>;
-    "wp:featuredmedia"?: Array<{
-      id: number;
-      date: string;
-      slug: string;
-      type: string;
-      link: string;
-      title: WPRenderedContent;
-      author: number;
-      caption: WPRenderedContent;
-      alt_text: string;
-      media_type: string;
-      mime_type: string;
-      media_details: {
-        width: number;
-        height: number;
-        file: string;
-        sizes: Record<
-          string,
-          {
-            file: string;
-            width: number;
-            height: number;
-            mime_type: string;
-            source_url: string;
-          }
-        >;
-      };
-      source_url: string;
-      _links: WPEmbeddable["_links"];
-    }>;
-    "wp:term"?: Array<
-      Array<{
-        id: number;
-        link: string;
-        name: string;
-        slug: string;
-        taxonomy: string;
-        _links: WPEmbeddable["_links"];
-      }>
-    >;
-  };
+   * Embedded resources, only present when _embed is requested
+   */
+  _embedded?: WPEmbeddedResources;
 }
 
 // POST/CREATE request type
@@ -402,9 +351,10 @@ export interface WPPostParameters {
   sticky?: boolean;
   /**
    * Embed related resources in the response.
-   * This will include author, featured media, etc. in the response if set to true.
+   * This will include author, featured media, etc. in the response if set to true,
+   * or only the listed link relations (e.g., ['author', 'wp:featuredmedia']).
    */
-  _embed?: boolean;
+  _embed?: boolean | string[];
   /**
    * Limit response to specific fields.
    * Example: ['id', 'title', 'content'] to only return these fields
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createRateLimiter } from "./rate-limit";
+import { createPaginationHelpers } from "./utils";
+import { createTagsEndpoints } from "./tags";
+import type { WPPaginatedResponse } from "./types";
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>((r) => (resolve = r));
+  return { promise, resolve };
+};
+
+describe("createRateLimiter", () => {
+  it("should cap the number of tasks in flight", async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 2 });
+    const gates = [deferred(), deferred(), deferred()];
+    let running = 0;
+    let peak = 0;
+
+    const runs = gates.map((gate) =>
+      limiter.schedule(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await gate.promise;
+        running--;
+      })
+    );
+
+    await Promise.resolve();
+    await Promise.resolve();
+    expect(limiter.active).toBe(2);
+    expect(limiter.pending).toBe(1);
+
+    gates.forEach((gate) => gate.resolve());
+    await Promise.all(runs);
+    expect(peak).toBe(2);
+  });
+
+  it("should space requests according to requestsPerSecond", async () => {
+    const limiter = createRateLimiter({ requestsPerSecond: 50 });
+    const started: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 3 }, () =>
+        limiter.schedule(async () => {
+          started.push(Date.now());
+        })
+      )
+    );
+
+    // 50 req/s → ~20ms between starts
+    expect(started[2] - started[0]).toBeGreaterThanOrEqual(35);
+  });
+
+  it("should drop queued tasks when their signal aborts", async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+    const gate = deferred();
+    const controller = new AbortController();
+    const task = vi.fn(async () => {});
+
+    const first = limiter.schedule(() => gate.promise);
+    const second = limiter.schedule(task, controller.signal);
+
+    controller.abort();
+    await expect(second).rejects.toMatchObject({ name: "AbortError" });
+
+    gate.resolve();
+    await first;
+    expect(task).not.toHaveBeenCalled();
+    expect(limiter.pending).toBe(0);
+  });
+});
+
+describe("Rate limiting requests", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  mockGlobalFetch();
+
+  it("should share one limiter across factories built from the same config", async () => {
+    const limiter = createRateLimiter({ maxConcurrent: 1 });
+    const schedule = vi.spyOn(limiter, "schedule");
+    (global.fetch as any).mockImplementation(async () => jsonResponse([]));
+
+    const tags = createTagsEndpoints({ baseUrl, limiter });
+    await Promise.all([tags.list(), tags.list({ search: "a" })]);
+
+    expect(schedule).toHaveBeenCalledTimes(2);
+
+    schedule.mockClear();
+    await tags.list({}, { limiter: false });
+    expect(schedule).not.toHaveBeenCalled();
+  });
+
+  it("should cap listAll page requests with the concurrency option", async () => {
+    let running = 0;
+    let peak = 0;
+    const listFn = async (params?: {
+      page?: number;
+      per_page?: number;
+    }): Promise<WPPaginatedResponse<number>> => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+      return {
+        items: [params?.page ?? 1],
+        pagination: {
+          total: 10,
+          totalPages: 10,
+          currentPage: params?.page ?? 1,
+          perPage: 100,
+          hasMore: (params?.page ?? 1) < 10,
+        },
+      };
+    };
+
+    const { listAll } = createPaginationHelpers(listFn);
+    const items = await listAll({}, { concurrency: 3 });
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(peak).toBe(3);
+  });
+
+  it("should stop requesting pages once one fails", async () => {
+    const requested: number[] = [];
+    const listFn = async (params?: {
+      page?: number;
+      per_page?: number;
+    }): Promise<WPPaginatedResponse<number>> => {
+      const page = params?.page ?? 1;
+      requested.push(page);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      if (page === 2) throw new Error("Page 2 failed");
+      return {
+        items: [page],
+        pagination: {
+          total: 10,
+          totalPages: 10,
+          currentPage: page,
+          perPage: 100,
+          hasMore: page < 10,
+        },
+      };
+    };
+
+    const { listAll } = createPaginationHelpers(listFn);
+    await expect(listAll({}, { concurrency: 2 })).rejects.toThrow(
+      "Page 2 failed"
+    );
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(requested).toEqual([1, 2, 3]);
+  });
+});
@@ -0,0 +1,138 @@
+import { getAbortReason } from "./retry";
+
+/**
+ * Options for createRateLimiter()
+ */
+export interface WPRateLimiterOptions {
+  /**
+   * Maximum number of requests in flight at the same time. Default: unlimited
+   */
+  maxConcurrent?: number;
+  /**
+   * Maximum number of requests started per second. Default: unlimited
+   */
+  requestsPerSecond?: number;
+  /**
+   * Requests that may start back-to-back before the per-second rate applies. Default: 1
+   */
+  burst?: number;
+}
+
+/**
+ * Limiter shared by every request made from the same endpoints config
+ */
+export interface WPRateLimiter {
+  /**
+   * Run a task once a concurrency slot and a rate token are available
+   * @param task Function that starts the request
+   * @param signal Optional AbortSignal; aborting removes the task from the queue
+   */
+  schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+  /**
+   * Number of tasks currently running
+   */
+  readonly active: number;
+  /**
+   * Number of tasks waiting for a slot or token
+   */
+  readonly pending: number;
+}
+
+interface QueuedTask {
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+/**
+ * Create a token-bucket rate limiter with a concurrency cap.
+ * Pass the same instance to every factory (or to createWordPressClient) so
+ * they share one budget.
+ *
+ * @example
+ * const limiter = createRateLimiter({ maxConcurrent: 4, requestsPerSecond: 8 });
+ * const wp = createWordPressClient({ baseUrl, limiter });
+ */
+export function createRateLimiter(
+  options: WPRateLimiterOptions = {}
+): WPRateLimiter {
+  const maxConcurrent = options.maxConcurrent ?? Infinity;
+  const rate = options.requestsPerSecond;
+  const capacity = rate ? Math.max(1, options.burst ?? 1) : Infinity;
+
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  let active = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const queue: QueuedTask[] = [];
+
+  const refill = () => {
+    if (!rate) return;
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + ((now - lastRefill) / 1000) * rate);
+    lastRefill = now;
+  };
+
+  const drain = () => {
+    while (queue.length > 0 && active < maxConcurrent) {
+      refill();
+      if (tokens < 1) {
+        if (!timer) {
+          const wait = Math.ceil(((1 - tokens) / rate!) * 1000);
+          timer = setTimeout(() => {
+            timer = undefined;
+            drain();
+          }, wait);
+        }
+        return;
+      }
+
+      tokens -= 1;
+      queue.shift()!.start();
+    }
+  };
+
+  return {
+    schedule: <T>(task: () => Promise<T>, signal?: AbortSignal) =>
+      new Promise<T>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(getAbortReason(signal));
+          return;
+        }
+
+        const onAbort = () => {
+          const index = queue.indexOf(entry);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            entry.cancel(getAbortReason(signal!));
+          }
+        };
+
+        const entry: QueuedTask = {
+          start: () => {
+            signal?.removeEventListener("abort", onAbort);
+            active++;
+            Promise.resolve()
+              .then(task)
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                drain();
+              });
+          },
+          cancel: reject,
+        };
+
+        signal?.addEventListener("abort", onAbort, { once: true });
+        queue.push(entry);
+        drain();
+      }),
+
+    get active() {
+      return active;
+    },
+
+    get pending() {
+      return queue.length;
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { makeApiRequest } from "./http";
+import { WPApiError } from "./errors";
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy } from "./retry";
+
+describe("Retry policy", () => {
+  const baseUrl = "https://example.com/wp-json";
+  const fastRetry = { baseDelay: 1, jitter: false };
+
+  mockGlobalFetch();
+
+  it("should not retry unless a policy is configured", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({}, 503));
+
+    await expect(
+      makeApiRequest({ baseUrl, path: "/wp/v2/posts" })
+    ).rejects.toBeInstanceOf(WPApiError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should retry retryable statuses until success", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}, 502))
+      .mockResolvedValueOnce(jsonResponse({ id: 1 }));
+
+    const response = await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts",
+      retry: fastRetry,
+    });
+
+    expect(await response.json()).toEqual({ id: 1 });
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should give up after maxAttempts", async () => {
+    (global.fetch as any).mockImplementation(async () => jsonResponse({}, 500));
+
+    await expect(
+      makeApiRequest({
+        baseUrl,
+        path: "/wp/v2/posts",
+        retry: { ...fastRetry, maxAttempts: 2 },
+      })
+    ).rejects.toMatchObject({ status: 500 });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should retry configured WordPress error codes", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(jsonResponse({ code: "db_lock_timeout" }, 400))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts",
+      retry: { ...fastRetry, codes: ["db_lock_timeout"] },
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not retry POST requests unless opted in", async () => {
+    (global.fetch as any).mockImplementation(async () => jsonResponse({}, 503));
+
+    await expect(
+      makeApiRequest({
+        baseUrl,
+        path: "/wp/v2/posts",
+        method: "POST",
+        body: { title: "New" },
+        retry: fastRetry,
+      })
+    ).rejects.toBeInstanceOf(WPApiError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+
+    (global.fetch as any).mockClear();
+    await expect(
+      makeApiRequest({
+        baseUrl,
+        path: "/wp/v2/posts",
+        method: "POST",
+        body: { title: "New" },
+        retry: { ...fastRetry, retryNonIdempotent: true },
+      })
+    ).rejects.toBeInstanceOf(WPApiError);
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("should treat POST with a PUT method override as idempotent", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await makeApiRequest({
+      baseUrl,
+      path: "/wp/v2/posts/1",
+      method: "POST",
+      body: { title: "Updated" },
+      headers: { "X-HTTP-Method-Override": "PUT" },
+      retry: fastRetry,
+    });
+
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("should retry network errors but not aborts", async () => {
+    (global.fetch as any)
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(jsonResponse({}));
+
+    await makeApiRequest({ baseUrl, path: "/wp/v2/posts", retry: fastRetry });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+
+    (global.fetch as any).mockReset();
+    (global.fetch as any).mockRejectedValue(
+      new DOMException("Aborted", "AbortError")
+    );
+    await expect(
+      makeApiRequest({ baseUrl, path: "/wp/v2/posts", retry: fastRetry })
+    ).rejects.toThrow("Aborted");
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should stop waiting when the signal aborts during backoff", async () => {
+    const controller = new AbortController();
+    (global.fetch as any).mockImplementation(async () => {
+      setTimeout(() => controller.abort(), 5);
+      return jsonResponse({}, 503);
+    });
+
+    await expect(
+      makeApiRequest({
+        baseUrl,
+        path: "/wp/v2/posts",
+        signal: controller.signal,
+        retry: { baseDelay: 10_000, jitter: false },
+      })
+    ).rejects.toMatchObject({ name: "AbortError" });
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("should refresh credentials only once per request", async () => {
+    (global.fetch as any).mockImplementation(async () => jsonResponse({}, 401));
+    const refresh = vi.fn(async () => {});
+
+    await expect(
+      makeApiRequest({
+        baseUrl,
+        path: "/wp/v2/posts",
+        auth: {
+          headers: {},
+          shouldRefresh: async () => true,
+          refresh,
+        },
+      })
+    ).rejects.toMatchObject({ status: 401 });
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("getRetryDelay", () => {
+  const policy = resolveRetryPolicy({ baseDelay: 100, jitter: false });
+
+  it("should back off exponentially", () => {
+    const error = new WPApiError("Server error", 500);
+    expect(getRetryDelay(policy, 1, error)).toBe(100);
+    expect(getRetryDelay(policy, 2, error)).toBe(200);
+    expect(getRetryDelay(policy, 3, error)).toBeUndefined();
+  });
+
+  it("should honour Retry-After on 429 and 503", () => {
+    const response = jsonResponse({}, 429, { "Retry-After": "2" });
+    const error = new WPApiError("Too many requests", 429);
+    expect(getRetryDelay(policy, 1, error, response)).toBe(2000);
+  });
+
+  it("should not retry when Retry-After exceeds maxRetryAfter", () => {
+    const response = jsonResponse({}, 503, { "Retry-After": "3600" });
+    const error = new WPApiError("Unavailable", 503);
+    expect(getRetryDelay(policy, 1, error, response)).toBeUndefined();
+  });
+
+  it("should not retry non-retryable statuses", () => {
+    const error = new WPApiError("Not found", 404);
+    expect(getRetryDelay(policy, 1, error)).toBeUndefined();
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("should parse delta-seconds", () => {
+    expect(parseRetryAfter("120")).toBe(120_000);
+  });
+
+  it("should parse HTTP dates", () => {
+    const now = Date.parse("Wed, 21 Oct 2025 07:28:00 GMT");
+    expect(parseRetryAfter("Wed, 21 Oct 2025 07:28:30 GMT", now)).toBe(30_000);
+  });
+
+  it("should ignore missing or invalid values", () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,197 @@
+import { WPApiError, WPNetworkError, WPTimeoutError } from "./errors";
+import type { HttpMethod } from "./middleware";
+
+/**
+ * Retry policy for failed requests
+ */
+export interface WPRetryOptions {
+  /**
+   * Total number of attempts, including the first one. Default: 3
+   */
+  maxAttempts?: number;
+  /**
+   * Base delay in milliseconds for exponential backoff. Default: 300
+   */
+  baseDelay?: number;
+  /**
+   * Upper bound for a single backoff delay in milliseconds. Default: 10000
+   */
+  maxDelay?: number;
+  /**
+   * Randomize delays ("full jitter") to avoid retry storms. Default: true
+   */
+  jitter?: boolean;
+  /**
+   * HTTP statuses that trigger a retry. Default: [408, 429, 500, 502, 503, 504]
+   */
+  statuses?: number[];
+  /**
+   * WordPress error codes (WPApiError.code) that trigger a retry regardless of status.
+   */
+  codes?: string[];
+  /**
+   * Retry when fetch itself rejects (DNS failure, connection reset). Default: true
+   */
+  networkErrors?: boolean;
+  /**
+   * Honour the Retry-After header on 429/503 responses. Default: true
+   */
+  respectRetryAfter?: boolean;
+  /**
+   * Longest Retry-After wait accepted, in milliseconds. Longer waits are not retried. Default: 60000
+   */
+  maxRetryAfter?: number;
+  /**
+   * Allow retrying non-idempotent requests (POST, PATCH). Default: false
+   */
+  retryNonIdempotent?: boolean;
+  /**
+   * Called before waiting for the next attempt
+   */
+  onRetry?: (info: { attempt: number; delay: number; error: unknown }) => void;
+}
+
+/**
+ * Retry policy with every option resolved
+ */
+type ResolvedRetryPolicy = Required<Omit<WPRetryOptions, "onRetry">> &
+  Pick<WPRetryOptions, "onRetry">;
+
+const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 300,
+  maxDelay: 10_000,
+  jitter: true,
+  statuses: [408, 429, 500, 502, 503, 504],
+  codes: [],
+  networkErrors: true,
+  respectRetryAfter: true,
+  maxRetryAfter: 60_000,
+  retryNonIdempotent: false,
+};
+
+/**
+ * Resolve the retry setting of a request. `undefined`/`false` disable retries,
+ * `true` enables the default policy.
+ */
+export function resolveRetryPolicy(
+  retry?: WPRetryOptions | boolean
+): ResolvedRetryPolicy {
+  if (!retry) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  if (retry === true) return DEFAULT_RETRY_POLICY;
+  return { ...DEFAULT_RETRY_POLICY, ...retry };
+}
+
+/**
+ * Whether a request can be safely repeated.
+ * PUT requests sent as POST + X-HTTP-Method-Override count as PUT.
+ */
+export function isIdempotentRequest(
+  method: HttpMethod,
+  headers: Record<string, string>
+): boolean {
+  const override = Object.entries(headers).find(
+    ([key]) => key.toLowerCase() === "x-http-method-override"
+  )?.[1];
+  const effective = (override || method).toUpperCase();
+  return effective !== "POST" && effective !== "PATCH";
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) return Math.max(0, date - now);
+
+  return undefined;
+}
+
+/**
+ * Whether an error is an abort triggered through an AbortSignal (including timeouts)
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error as { name?: string } | undefined)?.name === "AbortError" ||
+    error instanceof WPTimeoutError
+  );
+}
+
+/**
+ * Decide whether an attempt should be retried and how long to wait first.
+ * @returns Delay in milliseconds, or undefined when the request must not be retried
+ */
+export function getRetryDelay(
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  error: unknown,
+  response?: Response
+): number | undefined {
+  if (attempt >= policy.maxAttempts || isAbortError(error)) return undefined;
+
+  if (error instanceof WPApiError) {
+    const retryable =
+      policy.statuses.includes(error.status) ||
+      (error.code !== undefined && policy.codes.includes(error.code));
+    if (!retryable) return undefined;
+
+    if (
+      policy.respectRetryAfter &&
+      (error.status === 429 || error.status === 503)
+    ) {
+      const retryAfter = parseRetryAfter(response?.headers.get("Retry-After"));
+      if (retryAfter !== undefined) {
+        return retryAfter <= policy.maxRetryAfter ? retryAfter : undefined;
+      }
+    }
+  } else if (!(error instanceof WPNetworkError) || !policy.networkErrors) {
+    return undefined;
+  }
+
+  const exponential = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * 2 ** (attempt - 1)
+  );
+  return policy.jitter ? Math.random() * exponential : exponential;
+}
+
+/**
+ * Reason used when an AbortSignal fires
+ */
+export function getAbortReason(signal: AbortSignal): unknown {
+  return (
+    signal.reason ??
+    new DOMException("This operation was aborted", "AbortError")
+  );
+}
+
+/**
+ * Wait for `ms` milliseconds, rejecting early if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(getAbortReason(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(getAbortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
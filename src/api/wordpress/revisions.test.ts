@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createPostsEndpoints } from "./posts";
+import { diffRevisions } from "./revisions";
+import type { WPRevision } from "./revisions";
+
+const revision = (
+  id: number,
+  title: string,
+  content: string,
+  excerpt = ""
+): WPRevision =>
+  ({
+    id,
+    parent: 123,
+    title: { rendered: `<b>${title}</b>`, raw: title },
+    content: { rendered: `<p>${content}</p>`, raw: content },
+    excerpt: { rendered: excerpt, raw: excerpt },
+  } as WPRevision);
+
+describe("Revisions", () => {
+  const posts = createPostsEndpoints({
+    baseUrl: "https://example.com/wp-json",
+  });
+
+  mockGlobalFetch();
+
+  it("should list revisions with pagination info", async () => {
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse([revision(7, "Draft", "Hello")], 200, {
+        "X-WP-Total": "3",
+        "X-WP-TotalPages": "3",
+      })
+    );
+
+    const result = await posts.listRevisions(123, { per_page: 1, page: 2 });
+
+    expect(result.items[0].id).toBe(7);
+    expect(result.pagination.totalPages).toBe(3);
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/posts/123/revisions?per_page=1&page=2"
+    );
+  });
+
+  it("should force revision deletes unless told otherwise", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ deleted: true, previous: revision(7, "Draft", "Hello") })
+    );
+
+    await posts.deleteRevision(123, 7);
+    await posts.deleteRevision(123, 8, false);
+
+    const [forcedUrl, init] = (global.fetch as any).mock.calls[0];
+    expect(forcedUrl).toBe(
+      "https://example.com/wp-json/wp/v2/posts/123/revisions/7?force=true"
+    );
+    expect(init.method).toBe("DELETE");
+    expect((global.fetch as any).mock.calls[1][0]).toBe(
+      "https://example.com/wp-json/wp/v2/posts/123/revisions/8"
+    );
+  });
+
+  it("should restore the raw title, content and excerpt onto the post", async () => {
+    (global.fetch as any)
+      .mockResolvedValueOnce(jsonResponse(revision(7, "Draft", "Hello", "Hi")))
+      .mockResolvedValueOnce(jsonResponse({ id: 123 }));
+
+    const post = await posts.restoreRevision(123, 7);
+
+    expect(post.id).toBe(123);
+    expect((global.fetch as any).mock.calls[0][0]).toBe(
+      "https://example.com/wp-json/wp/v2/posts/123/revisions/7?context=edit&_fields=title%2Ccontent%2Cexcerpt"
+    );
+    const [url, init] = (global.fetch as any).mock.calls[1];
+    expect(url).toBe("https://example.com/wp-json/wp/v2/posts/123");
+    expect(JSON.parse(init.body)).toEqual({
+      title: "Draft",
+      content: "Hello",
+      excerpt: "Hi",
+    });
+  });
+
+  it("should leave fields the revision lacks untouched", async () => {
+    const restoring = createPostsEndpoints({
+      baseUrl: "https://example.com/wp-json",
+      defaults: { _fields: ["id", "title"] },
+    });
+    (global.fetch as any)
+      .mockResolvedValueOnce(
+        jsonResponse({ title: { raw: "Old title", rendered: "Old title" } })
+      )
+      .mockResolvedValueOnce(jsonResponse({ id: 123 }));
+
+    await restoring.restoreRevision(123, 7);
+
+    expect((global.fetch as any).mock.calls[0][0]).toContain(
+      "_fields=title%2Ccontent%2Cexcerpt"
+    );
+    const [, init] = (global.fetch as any).mock.calls[1];
+    expect(JSON.parse(init.body)).toEqual({ title: "Old title" });
+  });
+
+  it("should diff the fields that changed between two revisions", () => {
+    const before = revision(7, "Draft", "Hello");
+    const after = revision(8, "Draft", "Hello, world");
+
+    expect(diffRevisions(before, after)).toEqual([
+      { field: "content", from: "Hello", to: "Hello, world" },
+    ]);
+    expect(diffRevisions(before, after, ["title"])).toEqual([]);
+  });
+
+  it("should compare rendered values unless both revisions have raw ones", () => {
+    const edited = revision(7, "Draft", "Hello");
+    const viewed = {
+      ...revision(8, "Draft", "Hello, world"),
+      title: { rendered: "<b>Draft</b>" },
+      content: { rendered: "<p>Hello, world</p>" },
+      excerpt: { rendered: "" },
+    } as WPRevision;
+
+    expect(diffRevisions(edited, viewed)).toEqual([
+      { field: "content", from: "<p>Hello</p>", to: "<p>Hello, world</p>" },
+    ]);
+  });
+});
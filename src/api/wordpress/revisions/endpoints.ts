@@ -0,0 +1,167 @@
+import type {
+  WPRevision,
+  WPRevisionChange,
+  WPRevisionDeleteResponse,
+  WPRevisionField,
+  WPRevisionParameters,
+  RequestOptions,
+} from "./types";
+import { WPContext, WPEndpointsConfig, WPPaginatedResponse } from "../types";
+import { createApiClient, buildResourcePath } from "../http";
+
+/**
+ * Fields restoreRevision() copies back and diffRevisions() compares by default
+ */
+const REVISION_FIELDS: WPRevisionField[] = ["title", "content", "excerpt"];
+
+const fieldValue = (revision: WPRevision, field: WPRevisionField) =>
+  revision[field]?.raw ?? revision[field]?.rendered ?? "";
+
+/**
+ * Compare two revisions field by field
+ * @param from The older revision
+ * @param to The newer revision
+ * @param fields Fields to compare. Default: title, content and excerpt
+ * @returns The fields whose value changed, using raw values when both revisions have them
+ * @example
+ * const { items } = await wp.posts.listRevisions(123, { context: "edit", per_page: 2 });
+ * const [latest, previous] = items;
+ * for (const change of diffRevisions(previous, latest)) {
+ *   console.log(`${change.field}: ${change.from} -> ${change.to}`);
+ * }
+ */
+export function diffRevisions(
+  from: WPRevision,
+  to: WPRevision,
+  fields: WPRevisionField[] = REVISION_FIELDS
+): WPRevisionChange[] {
+  return fields
+    .map((field) => {
+      // Comparing raw against rendered would report every field as changed
+      const key =
+        from[field]?.raw !== undefined && to[field]?.raw !== undefined
+          ? "raw"
+          : "rendered";
+      return {
+        field,
+        from: from[field]?.[key] ?? "",
+        to: to[field]?.[key] ?? "",
+      };
+    })
+    .filter((change) => change.from !== change.to);
+}
+
+/**
+ * Revision endpoints for a post type (e.g., /wp/v2/posts/<id>/revisions)
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ * @param basePath Collection path of the parent resource (e.g., "/wp/v2/posts")
+ */
+export const createRevisionEndpoints = <TParent>(
+  config: WPEndpointsConfig,
+  basePath: string
+) => {
+  const api = createApiClient(config);
+  const revisionsPath = (parentId: number) =>
+    `${basePath}/${parentId}/revisions`;
+
+  const endpoints = {
+    /**
+     * Get a page of revisions for an item, newest first
+     * @param parentId The post or page ID
+     * @param params Optional parameters to filter, sort and paginate the revisions
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the revisions and pagination info
+     */
+    listRevisions: async (
+      parentId: number,
+      params?: WPRevisionParameters,
+      options?: RequestOptions
+    ): Promise<WPPaginatedResponse<WPRevision>> => {
+      return api.getPaginated<WPRevision>(revisionsPath(parentId), params, {
+        queryDefaults: false,
+        ...options,
+      });
+    },
+
+    /**
+     * Get a single revision
+     * @param parentId The post or page ID
+     * @param revisionId The revision ID
+     * @param context Optional context; "edit" includes raw title, content and excerpt
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the revision data
+     */
+    getRevision: async (
+      parentId: number,
+      revisionId: number,
+      context?: WPContext,
+      options?: RequestOptions
+    ): Promise<WPRevision> => {
+      return api.get<WPRevision>(
+        buildResourcePath(revisionsPath(parentId), revisionId),
+        { context },
+        { queryDefaults: false, ...options }
+      );
+    },
+
+    /**
+     * Delete a revision
+     * @param parentId The post or page ID
+     * @param revisionId The revision ID
+     * @param force Whether to force deletion. Default: true, since revisions cannot be trashed
+     * and WordPress rejects other deletes with `rest_trash_not_supported`
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the deletion result and the deleted revision
+     */
+    deleteRevision: async (
+      parentId: number,
+      revisionId: number,
+      force: boolean = true,
+      options?: RequestOptions
+    ): Promise<WPRevisionDeleteResponse> => {
+      const params = force ? { force: true } : undefined;
+      return api.delete<WPRevisionDeleteResponse>(
+        buildResourcePath(revisionsPath(parentId), revisionId),
+        params,
+        options
+      );
+    },
+
+    /**
+     * Restore a revision by copying its raw title, content and excerpt back onto the item.
+     * Fields the revision does not have are left untouched. WordPress stores the restored
+     * state as a new revision.
+     * @param parentId The post or page ID
+     * @param revisionId The revision ID to restore
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the updated item
+     * @example
+     * const post = await wp.posts.restoreRevision(123, 456);
+     */
+    restoreRevision: async (
+      parentId: number,
+      revisionId: number,
+      options?: RequestOptions
+    ): Promise<TParent> => {
+      // Ask for the copied fields explicitly so a client-wide `_fields` default cannot drop them
+      const revision = await api.get<WPRevision>(
+        buildResourcePath(revisionsPath(parentId), revisionId),
+        { context: "edit", _fields: REVISION_FIELDS },
+        { queryDefaults: false, ...options }
+      );
+      const data = Object.fromEntries(
+        REVISION_FIELDS.filter((field) => revision[field]).map((field) => [
+          field,
+          fieldValue(revision, field),
+        ])
+      );
+      return api.put<TParent>(
+        buildResourcePath(basePath, parentId),
+        data,
+        options
+      );
+    },
+  };
+
+  return endpoints;
+};
@@ -0,0 +1,139 @@
+import type { WPContext, WPEmbeddable } from "../types";
+import type { WPRenderedContent } from "../posts/types";
+
+export type { RequestOptions } from "../types";
+
+// GET response type
+export interface WPRevision extends WPEmbeddable {
+  /**
+   * Unique identifier for the revision.
+   */
+  id: number;
+  /**
+   * The ID of the post or page the revision belongs to.
+   */
+  parent: number;
+  /**
+   * The ID for the author of the revision.
+   */
+  author: number;
+  /**
+   * The date the revision was published, in the site's timezone.
+   */
+  date: string;
+  /**
+   * The date the revision was published, as GMT.
+   */
+  date_gmt: string;
+  /**
+   * The date the revision was last modified, in the site's timezone.
+   */
+  modified: string;
+  /**
+   * The date the revision was last modified, as GMT.
+   */
+  modified_gmt: string;
+  /**
+   * The globally unique identifier for the revision.
+   */
+  guid: WPRenderedContent;
+  /**
+   * An alphanumeric identifier for the revision.
+   */
+  slug: string;
+  /**
+   * The title of the revision. `raw` is only present with context=edit.
+   */
+  title: WPRenderedContent;
+  /**
+   * The content of the revision. `raw` is only present with context=edit.
+   */
+  content: WPRenderedContent;
+  /**
+   * The excerpt of the revision. `raw` is only present with context=edit.
+   */
+  excerpt: WPRenderedContent;
+  /**
+   * Meta fields.
+   */
+  meta?: Record<string, any>;
+}
+
+// GET parameters for listing revisions
+export interface WPRevisionParameters {
+  /**
+   * Scope under which the request is made; determines fields present in response.
+   */
+  context?: WPContext;
+  /**
+   * Current page of the collection.
+   */
+  page?: number;
+  /**
+   * Maximum number of items to be returned in result set.
+   */
+  per_page?: number;
+  /**
+   * Limit results to those matching a string.
+   */
+  search?: string;
+  /**
+   * Ensure result set excludes specific IDs.
+   */
+  exclude?: number[];
+  /**
+   * Limit result set to specific IDs.
+   */
+  include?: number[];
+  /**
+   * Offset the result set by a specific number of items.
+   */
+  offset?: number;
+  /**
+   * Order sort attribute ascending or descending.
+   */
+  order?: "asc" | "desc";
+  /**
+   * Sort collection by object attribute.
+   */
+  orderby?:
+    | "date"
+    | "id"
+    | "include"
+    | "relevance"
+    | "slug"
+    | "include_slugs"
+    | "title";
+}
+
+// DELETE response type
+export interface WPRevisionDeleteResponse {
+  /**
+   * Whether the revision was deleted.
+   */
+  deleted: boolean;
+  /**
+   * The revision as it was before deletion.
+   */
+  previous: WPRevision;
+}
+
+/**
+ * Revision fields that can be restored and compared
+ */
+export type WPRevisionField = "title" | "content" | "excerpt";
+
+/**
+ * A field that differs between two revisions
+ */
+export interface WPRevisionChange {
+  field: WPRevisionField;
+  /**
+   * Value in the older revision (raw when available, rendered otherwise).
+   */
+  from: string;
+  /**
+   * Value in the newer revision (raw when available, rendered otherwise).
+   */
+  to: string;
+}
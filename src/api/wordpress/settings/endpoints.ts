@@ -4,29 +4,20 @@ import type {
   WPSettingsParameters,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { apiGet, apiPut } from "../http";
+import type { WPEndpointsConfig } from "../types";
+import { createApiClient } from "../http";
 
 /**
  * Base path for WordPress settings API endpoints
  */
 const BASE_PATH = "/wp/v2/settings";
 
-/**
- * Settings API endpoints configuration
- */
-interface SettingsEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Settings API endpoints
  */
-export const createSettingsEndpoints = ({
-  baseUrl,
-  auth,
-}: SettingsEndpointsConfig) => {
+export const createSettingsEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get all WordPress settings
@@ -45,13 +36,10 @@ export const createSettingsEndpoints = ({
       params?: WPSettingsParameters,
       options?: RequestOptions
     ): Promise<WPSettings> => {
-      return apiGet<WPSettings>(
-        baseUrl,
-        BASE_PATH,
-        params || {},
-        auth,
-        options?.signal
-      );
+      return api.get<WPSettings>(BASE_PATH, params || {}, {
+        queryDefaults: false,
+        ...options,
+      });
     },
 
     /**
@@ -77,13 +65,7 @@ export const createSettingsEndpoints = ({
       data: WPSettingsUpdate,
       options?: RequestOptions
     ): Promise<WPSettings> => {
-      return apiPut<WPSettings>(
-        baseUrl,
-        BASE_PATH,
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPSettings>(BASE_PATH, data, options);
     },
   };
 
@@ -5,35 +5,28 @@ import type {
   WPTagUpdate,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
-import { createPaginationHelpers } from "../utils";
 import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+  WPContext,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createPaginationHelpers } from "../utils";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
 
 /**
  * Base path for WordPress tags API endpoints
  */
 const BASE_PATH = "/wp/v2/tags";
 
-/**
- * Tags API endpoints configuration
- */
-interface TagsEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Tags API endpoints
  */
-export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
+export const createTagsEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of tags
@@ -51,23 +44,17 @@ export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
      * const controller = new AbortController();
      * const tags = await api.tags.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPTagParameters,
+    list: async <F extends string = never>(
+      params?: WPFieldsParams<WPTagParameters, WPTag, F>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPTag>> => {
-      return apiGetPaginated<WPTag>(
-        baseUrl,
-        BASE_PATH,
-        params,
-        auth,
-        options?.signal
-      );
+    ): Promise<WPPaginatedResponse<WPFields<WPTag, F>>> => {
+      return api.getPaginated<WPFields<WPTag, F>>(BASE_PATH, params, options);
     },
 
     /**
      * Get a single tag by ID
      * @param id The tag ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the tag data
      * @example
@@ -78,17 +65,15 @@ export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
      * const controller = new AbortController();
      * const tag = await api.tags.get(123, 'view', { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPTag, F>,
       options?: RequestOptions
-    ): Promise<WPTag> => {
-      return apiGet<WPTag>(
-        baseUrl,
+    ): Promise<WPFields<WPTag, F>> => {
+      return api.get<WPFields<WPTag, F>>(
         buildResourcePath(BASE_PATH, id),
-        { context },
-        auth,
-        options?.signal
+        buildItemParams(context),
+        options
       );
     },
 
@@ -115,7 +100,7 @@ export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
       data: WPTagCreate,
       options?: RequestOptions
     ): Promise<WPTag> => {
-      return apiPost<WPTag>(baseUrl, BASE_PATH, data, auth, options?.signal);
+      return api.post<WPTag>(BASE_PATH, data, options);
     },
 
     /**
@@ -141,13 +126,7 @@ export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
       data: WPTagUpdate,
       options?: RequestOptions
     ): Promise<WPTag> => {
-      return apiPut<WPTag>(
-        baseUrl,
-        buildResourcePath(BASE_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPTag>(buildResourcePath(BASE_PATH, id), data, options);
     },
 
     /**
@@ -170,18 +149,18 @@ export const createTagsEndpoints = ({ baseUrl, auth }: TagsEndpointsConfig) => {
       options?: RequestOptions
     ): Promise<WPTag> => {
       const params = force ? { force: true } : undefined;
-      return apiDelete<WPTag>(
-        baseUrl,
+      return api.delete<WPTag>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
   };
 
   // Add pagination helpers
-  const paginationHelpers = createPaginationHelpers(endpoints.list);
+  const paginationHelpers = createPaginationHelpers<WPTag, WPTagParameters>(
+    endpoints.list
+  );
   return {
     ...endpoints,
     ...paginationHelpers,
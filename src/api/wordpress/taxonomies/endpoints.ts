@@ -1,30 +1,19 @@
 import type { WPTaxonomy, WPTaxonomyParameters, RequestOptions } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
+import { WPEndpointsConfig, WPPaginatedResponse } from "../types";
 import { createPaginationHelpers } from "../utils";
-import { handleApiError } from "../errors";
-import { apiGet } from "../http";
+import { createApiClient, parseJsonResponse } from "../http";
 
 /**
  * Base path for WordPress taxonomies API endpoints
  */
 const BASE_PATH = "/wp/v2/taxonomies";
 
-/**
- * Taxonomies API endpoints configuration
- */
-interface TaxonomiesEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Taxonomies API endpoints
  */
-export const createTaxonomiesEndpoints = ({
-  baseUrl,
-  auth,
-}: TaxonomiesEndpointsConfig) => {
+export const createTaxonomiesEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of taxonomies
@@ -46,41 +35,14 @@ export const createTaxonomiesEndpoints = ({
       params?: WPTaxonomyParameters,
       options?: RequestOptions
     ): Promise<WPPaginatedResponse<WPTaxonomy>> => {
-      const searchParams = new URLSearchParams();
-
-      if (params) {
-        Object.entries(params).forEach(([key, value]) => {
-          if (value !== undefined) {
-            searchParams.append(key, value.toString());
-          }
-        });
-      }
-
-      const queryString = searchParams.toString();
-      const url = `${baseUrl}${BASE_PATH}${
-        queryString ? `?${queryString}` : ""
-      }`;
-
-      await auth?.beforeRequest?.();
-
-      const response = await fetch(url, {
-        headers: auth?.headers || {},
-        signal: options?.signal,
-      });
-
-      if (!response.ok) {
-        if (auth?.shouldRefresh && (await auth.shouldRefresh(response))) {
-          await auth.refresh?.();
-          return endpoints.list(params, options);
-        }
-        await handleApiError(response);
-      }
-
-      const processedResponse = auth?.afterRequest
-        ? await auth.afterRequest(response)
-        : response;
+      const response = await api.request(
+        { path: BASE_PATH, method: "GET", params },
+        options
+      );
 
-      const items: Record<string, WPTaxonomy> = await processedResponse.json();
+      const items = await parseJsonResponse<Record<string, WPTaxonomy>>(
+        response
+      );
       // Convert record to array
       const itemsArray = Object.values(items);
       const total = response.headers.get("X-WP-Total");
@@ -114,16 +76,10 @@ export const createTaxonomiesEndpoints = ({
      */
     get: async (
       slug: string,
-      context: "view" | "embed" | "edit" = "view",
+      context?: "view" | "embed" | "edit",
       options?: RequestOptions
     ): Promise<WPTaxonomy> => {
-      return apiGet<WPTaxonomy>(
-        baseUrl,
-        `${BASE_PATH}/${slug}`,
-        { context },
-        auth,
-        options?.signal
-      );
+      return api.get<WPTaxonomy>(`${BASE_PATH}/${slug}`, { context }, options);
     },
   };
 
@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { createTermEndpoints, createTermEndpointsForTaxonomies } from "./terms";
+import type { WPTaxonomy } from "./taxonomies";
+import { WPError } from "./errors";
+
+const pagedResponse = (body: unknown) =>
+  jsonResponse(body, 200, { "X-WP-Total": "1", "X-WP-TotalPages": "1" });
+
+const taxonomy = (overrides: Partial<WPTaxonomy>) =>
+  ({
+    slug: "genre",
+    rest_base: "genres",
+    rest_namespace: "wp/v2",
+    hierarchical: true,
+    ...overrides,
+  } as WPTaxonomy);
+
+describe("createTermEndpoints", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  mockGlobalFetch();
+
+  it("should list children of a hierarchical term", async () => {
+    (global.fetch as any).mockResolvedValue(
+      pagedResponse([{ id: 5, parent: 2 }])
+    );
+    const genres = createTermEndpoints({
+      baseUrl,
+      restBase: "genres",
+      hierarchical: true,
+    });
+
+    const { items } = await genres.children(2, { per_page: 50 });
+
+    expect(items[0].parent).toBe(2);
+    const url = new URL((global.fetch as any).mock.calls[0][0]);
+    expect(url.pathname).toBe("/wp-json/wp/v2/genres");
+    expect(url.searchParams.get("parent")).toBe("2");
+  });
+
+  it("should reject parent on flat taxonomies", async () => {
+    const regions = createTermEndpoints({ baseUrl, restBase: "regions" });
+
+    await expect(
+      regions.create({ name: "North", parent: 1 })
+    ).rejects.toBeInstanceOf(WPError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it("should build clients for every public taxonomy", async () => {
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 3 }));
+    const terms = createTermEndpointsForTaxonomies(
+      { baseUrl },
+      {
+        items: [
+          taxonomy({}),
+          taxonomy({
+            slug: "language",
+            rest_base: "languages",
+            rest_namespace: "i18n/v1",
+          }),
+          taxonomy({ slug: "internal", visibility: { public: false } }),
+        ],
+        pagination: {
+          total: 3,
+          totalPages: 1,
+          currentPage: 1,
+          perPage: 3,
+          hasMore: false,
+        },
+      }
+    );
+
+    expect(Object.keys(terms)).toEqual(["genre", "language"]);
+    await terms.language.get(3);
+    expect((global.fetch as any).mock.calls[0][0]).toContain(
+      "https://example.com/wp-json/i18n/v1/languages/3"
+    );
+  });
+});
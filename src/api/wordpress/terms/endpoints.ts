@@ -0,0 +1,221 @@
+import type {
+  WPTerm,
+  WPTermParameters,
+  WPTermCreate,
+  WPTermUpdate,
+  WPTermEndpointsConfig,
+  WPTaxonomyRoute,
+  WPTermEndpoints,
+  RequestOptions,
+} from "./types";
+import type { WPTaxonomy } from "../taxonomies/types";
+import {
+  WPContext,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { WPError } from "../errors";
+import { createPaginationHelpers } from "../utils";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
+
+/**
+ * Namespace used when a taxonomy does not declare one
+ */
+const DEFAULT_REST_NAMESPACE = "wp/v2";
+
+/**
+ * Term endpoints for any taxonomy exposed through the REST API (genres, regions, ...)
+ * @param config Shared endpoints config plus the taxonomy's `restBase`, `restNamespace` and `hierarchical` flag
+ * @example
+ * const genres = createTermEndpoints({
+ *   ...config,
+ *   restBase: "genres",
+ *   hierarchical: true,
+ * });
+ *
+ * const fiction = await genres.create({ name: "Fiction" });
+ * await genres.create({ name: "Sci-Fi", parent: fiction.id });
+ * const { items } = await genres.children(fiction.id);
+ */
+export const createTermEndpoints = <
+  TTerm extends WPTerm = WPTerm,
+  TParams extends WPTermParameters = WPTermParameters,
+  TCreate extends WPTermCreate = WPTermCreate,
+  TUpdate extends WPTermUpdate = WPTermUpdate
+>(
+  config: WPTermEndpointsConfig
+) => {
+  const {
+    restBase,
+    restNamespace,
+    hierarchical = false,
+    ...endpointsConfig
+  } = config;
+  const api = createApiClient(endpointsConfig);
+  const basePath = `/${restNamespace || DEFAULT_REST_NAMESPACE}/${restBase}`;
+
+  // WordPress ignores `parent` on flat taxonomies, which would silently return unfiltered results
+  const assertParentAllowed = (parent?: number) => {
+    if (parent !== undefined && !hierarchical) {
+      throw new WPError(
+        `Terms of ${basePath} cannot have a parent: the taxonomy is not hierarchical`
+      );
+    }
+  };
+
+  const endpoints = {
+    /**
+     * Get a list of terms
+     * @param params Optional parameters to filter, sort and paginate the terms
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the terms and pagination info
+     */
+    list: async <F extends string = never>(
+      params?: WPFieldsParams<TParams, TTerm, F>,
+      options?: RequestOptions
+    ): Promise<WPPaginatedResponse<WPFields<TTerm, F>>> => {
+      assertParentAllowed(params?.parent);
+      return api.getPaginated<WPFields<TTerm, F>>(basePath, params, options);
+    },
+
+    /**
+     * Get the direct children of a term (hierarchical taxonomies only)
+     * @param parent The parent term ID (0 for top-level terms)
+     * @param params Optional parameters to filter, sort and paginate the terms
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the child terms and pagination info
+     */
+    children: async (
+      parent: number,
+      params?: Omit<TParams, "parent">,
+      options?: RequestOptions
+    ): Promise<WPPaginatedResponse<TTerm>> => {
+      assertParentAllowed(parent);
+      return api.getPaginated<TTerm>(basePath, { ...params, parent }, options);
+    },
+
+    /**
+     * Get a single term by ID
+     * @param id The term ID
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the term data
+     */
+    get: async <F extends string = never>(
+      id: number,
+      context?: WPContext | WPFieldsParams<WPGetParameters, TTerm, F>,
+      options?: RequestOptions
+    ): Promise<WPFields<TTerm, F>> => {
+      return api.get<WPFields<TTerm, F>>(
+        buildResourcePath(basePath, id),
+        buildItemParams(context),
+        options
+      );
+    },
+
+    /**
+     * Create a new term
+     * @param data The term data
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the created term data
+     */
+    create: async (data: TCreate, options?: RequestOptions): Promise<TTerm> => {
+      assertParentAllowed(data.parent);
+      return api.post<TTerm>(basePath, data, options);
+    },
+
+    /**
+     * Update an existing term
+     * @param id The term ID to update
+     * @param data The term data to update
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the updated term data
+     */
+    update: async (
+      id: number,
+      data: TUpdate,
+      options?: RequestOptions
+    ): Promise<TTerm> => {
+      assertParentAllowed(data.parent);
+      return api.put<TTerm>(buildResourcePath(basePath, id), data, options);
+    },
+
+    /**
+     * Delete a term
+     * @param id The term ID to delete
+     * @param force Whether to bypass trash and force deletion (terms require true)
+     * @param options Optional request options (e.g., signal for aborting)
+     * @returns Promise with the deleted term data
+     */
+    delete: async (
+      id: number,
+      force: boolean = false,
+      options?: RequestOptions
+    ): Promise<TTerm> => {
+      const params = force ? { force: true } : undefined;
+      return api.delete<TTerm>(
+        buildResourcePath(basePath, id),
+        params,
+        options
+      );
+    },
+  };
+
+  // Add pagination helpers
+  const paginationHelpers = createPaginationHelpers<TTerm, TParams>(
+    endpoints.list
+  );
+  return {
+    ...endpoints,
+    ...paginationHelpers,
+  };
+};
+
+/**
+ * Build term endpoints for a taxonomy returned by createTaxonomiesEndpoints(),
+ * reading its `rest_base`, `rest_namespace` and `hierarchical` flag
+ */
+export const createTermEndpointsFromTaxonomy = <TTerm extends WPTerm = WPTerm>(
+  config: WPEndpointsConfig,
+  taxonomy: WPTaxonomyRoute
+) =>
+  createTermEndpoints<TTerm>({
+    ...config,
+    restBase: taxonomy.rest_base,
+    restNamespace: taxonomy.rest_namespace,
+    hierarchical: taxonomy.hierarchical,
+  });
+
+/**
+ * Build term endpoints for every public taxonomy, keyed by taxonomy slug
+ * @param config Shared endpoints config (baseUrl, auth, ...)
+ * @param taxonomies Output of taxonomies.list() (or its items)
+ * @example
+ * const terms = createTermEndpointsForTaxonomies(
+ *   config,
+ *   await wp.taxonomies.list()
+ * );
+ *
+ * const { items } = await terms.genre.list({ hide_empty: true });
+ */
+export const createTermEndpointsForTaxonomies = (
+  config: WPEndpointsConfig,
+  taxonomies: WPTaxonomy[] | WPPaginatedResponse<WPTaxonomy>
+): Record<string, WPTermEndpoints> => {
+  const items = Array.isArray(taxonomies) ? taxonomies : taxonomies.items;
+
+  return Object.fromEntries(
+    items
+      // `visibility` is only returned with context=edit; the list only contains REST taxonomies
+      .filter(
+        (taxonomy) => (taxonomy.visibility?.public ?? taxonomy.public) !== false
+      )
+      .map((taxonomy) => [
+        taxonomy.slug,
+        createTermEndpointsFromTaxonomy(config, taxonomy),
+      ])
+  );
+};
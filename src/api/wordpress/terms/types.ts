@@ -0,0 +1,148 @@
+import { WPEmbeddable, WPBaseParameters, WPEndpointsConfig } from "../types";
+import type { WPTaxonomy } from "../taxonomies/types";
+import type { createTermEndpoints } from "./endpoints";
+
+export type { RequestOptions } from "../types";
+
+// Base types for common fields
+interface WPTermBase {
+  /**
+   * The description of the term.
+   */
+  description: string;
+  /**
+   * The name of the term.
+   */
+  name: string;
+  /**
+   * An alphanumeric identifier for the term.
+   */
+  slug: string;
+}
+
+// GET response type
+export interface WPTerm extends WPTermBase, WPEmbeddable {
+  /**
+   * Unique identifier for the term.
+   */
+  id: number;
+  /**
+   * The number of published posts for the term.
+   */
+  count: number;
+  /**
+   * URL to the term.
+   */
+  link: string;
+  /**
+   * Type attribution for the term (the taxonomy slug).
+   */
+  taxonomy: string;
+  /**
+   * The parent term ID. Only present for hierarchical taxonomies.
+   */
+  parent?: number;
+  /**
+   * Meta fields.
+   */
+  meta: Record<string, any>;
+}
+
+// POST/CREATE request type
+export interface WPTermCreate extends Partial<WPTermBase> {
+  /**
+   * The name of the term.
+   */
+  name: string;
+  /**
+   * The parent term ID. Only allowed for hierarchical taxonomies.
+   */
+  parent?: number;
+  /**
+   * Meta fields.
+   */
+  meta?: Record<string, any>;
+}
+
+// PUT/PATCH/UPDATE request type
+export interface WPTermUpdate extends Partial<WPTermCreate> {}
+
+// GET parameters for listing terms
+export interface WPTermParameters extends WPBaseParameters {
+  /**
+   * Limit results to those matching a string.
+   */
+  search?: string;
+  /**
+   * Ensure result set excludes specific IDs.
+   */
+  exclude?: number[];
+  /**
+   * Limit result set to specific IDs.
+   */
+  include?: number[];
+  /**
+   * Order sort attribute ascending or descending.
+   */
+  order?: "asc" | "desc";
+  /**
+   * Sort collection by term attribute.
+   */
+  orderby?:
+    | "id"
+    | "include"
+    | "name"
+    | "slug"
+    | "include_slugs"
+    | "term_group"
+    | "description"
+    | "count";
+  /**
+   * Whether to hide terms not assigned to any posts.
+   */
+  hide_empty?: boolean;
+  /**
+   * Limit result set to terms assigned to a specific parent ID.
+   * Only allowed for hierarchical taxonomies.
+   */
+  parent?: number;
+  /**
+   * Limit result set to terms assigned to a specific post.
+   */
+  post?: number;
+  /**
+   * Limit result set to terms with one or more specific slugs.
+   */
+  slug?: string | string[];
+}
+
+/**
+ * Config for createTermEndpoints()
+ */
+export interface WPTermEndpointsConfig extends WPEndpointsConfig {
+  /**
+   * REST base of the taxonomy (e.g., "genres" for /wp/v2/genres).
+   */
+  restBase: string;
+  /**
+   * REST namespace of the taxonomy. Default: "wp/v2"
+   */
+  restNamespace?: string;
+  /**
+   * Whether terms can have parents. Enables `parent` and children().
+   */
+  hierarchical?: boolean;
+}
+
+/**
+ * Fields of a taxonomy object needed to build its term endpoints
+ */
+export type WPTaxonomyRoute = Pick<WPTaxonomy, "rest_base" | "hierarchical"> &
+  Partial<Pick<WPTaxonomy, "rest_namespace">>;
+
+/**
+ * Endpoints returned by createTermEndpoints()
+ */
+export type WPTermEndpoints<TTerm extends WPTerm = WPTerm> = ReturnType<
+  typeof createTermEndpoints<TTerm>
+>;
@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../../tests/helpers";
+import { WPTimeoutError } from "./errors";
+import { createPostsEndpoints } from "./posts";
+
+describe("Request timeouts", () => {
+  const baseUrl = "https://example.com/wp-json";
+
+  // Never resolves; rejects with the signal's reason once it aborts
+  const hangingFetch = () =>
+    (global.fetch as any).mockImplementation(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          if (init.signal?.aborted) reject(init.signal.reason);
+          init.signal?.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          );
+        })
+    );
+
+  mockGlobalFetch();
+
+  it("should reject with WPTimeoutError when the timeout elapses", async () => {
+    hangingFetch();
+    const posts = createPostsEndpoints({ baseUrl });
+
+    const error = await posts.list({}, { timeout: 10 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WPTimeoutError);
+    expect(error.timeout).toBe(10);
+  });
+
+  it("should apply the config timeout unless the call overrides it", async () => {
+    hangingFetch();
+    const posts = createPostsEndpoints({ baseUrl, timeout: 10 });
+
+    await expect(posts.get(1)).rejects.toBeInstanceOf(WPTimeoutError);
+
+    (global.fetch as any).mockResolvedValue(jsonResponse({ id: 1 }));
+    await expect(
+      posts.get(1, undefined, false, { timeout: 0 })
+    ).resolves.toEqual({ id: 1 });
+  });
+
+  it("should keep user aborts distinct from timeouts", async () => {
+    hangingFetch();
+    const posts = createPostsEndpoints({ baseUrl, timeout: 10_000 });
+    const controller = new AbortController();
+
+    const request = posts.list({}, { signal: controller.signal });
+    controller.abort();
+
+    const error = await request.catch((e) => e);
+    expect(error).not.toBeInstanceOf(WPTimeoutError);
+    expect(error.name).toBe("AbortError");
+  });
+
+  it("should not retry once the timeout has fired", async () => {
+    hangingFetch();
+    const posts = createPostsEndpoints({
+      baseUrl,
+      timeout: 10,
+      retry: { baseDelay: 1, jitter: false },
+    });
+
+    await expect(posts.list()).rejects.toBeInstanceOf(WPTimeoutError);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
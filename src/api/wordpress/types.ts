@@ -1,3 +1,9 @@
+import type { AuthResponse } from "../../auth";
+import type { WPMiddleware } from "./middleware";
+import type { WPRetryOptions } from "./retry";
+import type { WPRateLimiter } from "./rate-limit";
+import type { WPResponseCache } from "./cache";
+
 /**
  * WordPress pagination response headers
  */
@@ -77,9 +83,10 @@ export interface WPBaseParameters {
    */
   context?: "view" | "embed" | "edit";
   /**
-   * Embed related resources in the response.
+   * Embed related resources in the response: `true` for all of them, or a list
+   * of link relations (WordPress 5.4+). Example: ['author', 'wp:featuredmedia']
    */
-  _embed?: boolean;
+  _embed?: boolean | string[];
   /**
    * Limit response to specific fields.
    * Example: ['id', 'title', 'content']
@@ -91,6 +98,215 @@ export interface WPBaseParameters {
   custom?: Record<string, string | number | boolean | Array<string | number | boolean>>;
 }
 
+/**
+ * Scope under which a request is made; determines fields present in response
+ */
+export type WPContext = "view" | "embed" | "edit";
+
+/**
+ * Remaining nesting levels WPFieldPath descends into
+ */
+type WPFieldPathDepth = [never, 0, 1, 2, 3];
+
+/**
+ * Field names of T usable in `_fields`, including dotted paths (e.g., "title.rendered")
+ */
+export type WPFieldPath<T, Depth extends number = 3> = [Depth] extends [never]
+  ? never
+  : T extends readonly unknown[]
+  ? never
+  : T extends object
+  ? {
+      [K in keyof T & string]:
+        | K
+        | (NonNullable<T[K]> extends readonly unknown[]
+            ? never
+            : NonNullable<T[K]> extends object
+            ? `${K}.${WPFieldPath<NonNullable<T[K]>, WPFieldPathDepth[Depth]>}`
+            : never);
+    }[keyof T & string]
+  : never;
+
+type WPFieldHead<F extends string> = F extends `${infer Head}.${string}`
+  ? Head
+  : F;
+
+type WPFieldTail<
+  F extends string,
+  K extends string
+> = F extends `${K}.${infer Tail}` ? Tail : never;
+
+/**
+ * T narrowed to the `_fields` paths in F (e.g., Pick<WPPost, "id"> & { title: Pick<..., "rendered"> })
+ */
+export type WPPickFields<T, F extends string> = string extends keyof T
+  ? { [K in WPFieldHead<F>]: T[keyof T] }
+  : {
+      [K in keyof T as K extends WPFieldHead<F> ? K : never]: K extends F
+        ? T[K]
+        :
+            | WPPickFields<NonNullable<T[K]>, WPFieldTail<F, K & string>>
+            | Extract<T[K], undefined>;
+    };
+
+/**
+ * Resources added by `_embed`, which `_fields` can select (e.g., "_embedded.author")
+ */
+interface WPEmbeddedFields {
+  _embedded?: Record<string, unknown[]>;
+}
+
+/**
+ * T with an untyped `_embedded` key when it does not declare one
+ */
+type WPWithEmbedded<T> = "_embedded" extends keyof T ? T : T & WPEmbeddedFields;
+
+/**
+ * Response type for a request with `_fields` F; the full T when F is not a literal tuple
+ */
+export type WPFields<T, F extends string> = [F] extends [never]
+  ? T
+  : string extends F
+  ? T
+  : WPPickFields<WPWithEmbedded<T>, F>;
+
+/**
+ * Parameters P with a `_fields` list checked against the paths of T
+ * and an `_embed` list of link relations E
+ */
+export type WPFieldsParams<
+  P,
+  T,
+  F extends string,
+  E extends string = string
+> = Omit<P, "_fields" | "_embed"> & {
+  /**
+   * Limit response to specific fields. Literal lists narrow the response type.
+   * Example: ['id', 'title.rendered']
+   */
+  _fields?: readonly F[] &
+    readonly (string extends F ? string : WPFieldPath<WPWithEmbedded<T>>)[];
+  /**
+   * Embed related resources: `true` for all of them, or a list of link relations.
+   * Example: ['author', 'wp:featuredmedia']
+   */
+  _embed?: boolean | readonly E[];
+};
+
+/**
+ * Author embedded through the `author` link relation
+ */
+export interface WPEmbeddedAuthor {
+  id: number;
+  name: string;
+  url: string;
+  description: string;
+  link: string;
+  slug: string;
+  avatar_urls: Record<string, string>;
+  _links: WPEmbeddable["_links"];
+}
+
+/**
+ * Attachment embedded through the `wp:featuredmedia` link relation
+ */
+export interface WPEmbeddedMedia {
+  id: number;
+  date: string;
+  slug: string;
+  type: string;
+  link: string;
+  title: { rendered: string };
+  author: number;
+  caption: { rendered: string };
+  alt_text: string;
+  media_type: string;
+  mime_type: string;
+  media_details: {
+    width: number;
+    height: number;
+    file: string;
+    sizes: Record<
+      string,
+      {
+        file: string;
+        width: number;
+        height: number;
+        mime_type: string;
+        source_url: string;
+      }
+    >;
+  };
+  source_url: string;
+  _links: WPEmbeddable["_links"];
+}
+
+/**
+ * Term embedded through the `wp:term` link relation
+ */
+export interface WPEmbeddedTerm {
+  id: number;
+  link: string;
+  name: string;
+  slug: string;
+  taxonomy: string;
+  _links: WPEmbeddable["_links"];
+}
+
+/**
+ * Embedded resources, only present when `_embed` is requested.
+ * Each relation holds one entry per link (`wp:term` holds one list per taxonomy).
+ */
+export interface WPEmbeddedResources {
+  author?: Array<WPEmbeddedAuthor>;
+  "wp:featuredmedia"?: Array<WPEmbeddedMedia>;
+  "wp:term"?: Array<Array<WPEmbeddedTerm>>;
+  up?: Array<Record<string, unknown>>;
+  replies?: Array<Array<Record<string, unknown>>>;
+}
+
+/**
+ * Link relations `_embed` can select
+ */
+export type WPEmbedRelation = keyof WPEmbeddedResources;
+
+/**
+ * T with `_embedded` limited to the link relations in E (all of them when E is not a literal list)
+ */
+export type WPEmbeds<T, E extends string> = [E] extends [never]
+  ? T
+  : string extends E
+  ? T
+  : "_embedded" extends keyof T
+  ? T extends { _embedded?: infer Embedded }
+    ? Omit<T, "_embedded"> & {
+        _embedded?: {
+          [K in E]?: K extends keyof NonNullable<Embedded>
+            ? NonNullable<Embedded>[K]
+            : unknown[];
+        };
+      }
+    : T
+  : T;
+
+/**
+ * Query parameters for fetching a single item
+ */
+export interface WPGetParameters {
+  /**
+   * Scope under which the request is made; determines fields present in response.
+   */
+  context?: WPContext;
+  /**
+   * Embed related resources: `true` for all of them, or a list of link relations.
+   */
+  _embed?: boolean | readonly string[];
+  /**
+   * Limit response to specific fields.
+   */
+  _fields?: readonly string[];
+}
+
 /**
  * Request options for API calls
  */
@@ -99,4 +315,105 @@ export interface RequestOptions {
    * AbortSignal to cancel the request
    */
   signal?: AbortSignal;
+  /**
+   * Credentials for this call, overriding the endpoints config. `false` sends it anonymously.
+   */
+  auth?: AuthResponse | false;
+  /**
+   * Retry policy for this call, overriding the endpoints config
+   * (e.g., `{ retryNonIdempotent: true }` to allow retrying a create).
+   */
+  retry?: WPRetryOptions | boolean;
+  /**
+   * Rate limiter for this call, overriding the endpoints config. `false` bypasses it.
+   */
+  limiter?: WPRateLimiter | false;
+  /**
+   * Response cache for this call, overriding the endpoints config. `false` bypasses it.
+   */
+  cache?: WPResponseCache | false;
+  /**
+   * Share the network call with concurrent identical GET requests, overriding the endpoints config.
+   */
+  dedupe?: boolean;
+  /**
+   * Milliseconds before the request is aborted with a WPTimeoutError, overriding the
+   * endpoints config. `0` disables the timeout.
+   */
+  timeout?: number;
+  /**
+   * Apply `defaults.context` and `defaults._fields` to this GET. Default: true; helpers for
+   * routes that do not return post-like resources (settings, autosaves, Yoast head, ...) turn it off.
+   */
+  queryDefaults?: boolean;
+}
+
+/**
+ * Default values applied to every request made from a shared endpoints config
+ */
+export interface WPRequestDefaults {
+  /**
+   * Default context for GET requests when the call does not set one.
+   */
+  context?: "view" | "embed" | "edit";
+  /**
+   * Default fields for GET requests when the call does not set `_fields`.
+   */
+  _fields?: string[];
+  /**
+   * Headers sent with every request. Auth headers take precedence.
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * fetch-compatible transport (undici with a custom dispatcher, a Workers service binding,
+ * an in-process test transport, ...)
+ */
+export type WPFetch = (input: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Shared configuration accepted by every endpoint factory
+ */
+export interface WPEndpointsConfig {
+  /**
+   * WordPress REST base URL (e.g., https://site.com/wp-json).
+   */
+  baseUrl: string;
+  /**
+   * Authentication returned by createAuth().
+   */
+  auth?: AuthResponse;
+  /**
+   * Per-client request defaults.
+   */
+  defaults?: WPRequestDefaults;
+  /**
+   * Middleware run (in order) around every request made with this config.
+   */
+  middleware?: WPMiddleware[];
+  /**
+   * Retry policy for failed requests. Disabled unless set; `true` uses the defaults.
+   */
+  retry?: WPRetryOptions | boolean;
+  /**
+   * Rate limiter shared by every factory built from this config.
+   */
+  limiter?: WPRateLimiter;
+  /**
+   * Response cache for GET requests, invalidated by writes made with this config.
+   */
+  cache?: WPResponseCache;
+  /**
+   * Merge concurrent identical GET requests (same URL and auth) into one network call.
+   */
+  dedupe?: boolean;
+  /**
+   * Default timeout in milliseconds for every request, covering all retry attempts.
+   */
+  timeout?: number;
+  /**
+   * fetch implementation used for every request. Default: the global fetch.
+   */
+  fetch?: WPFetch;
 }
@@ -5,38 +5,29 @@ import type {
   WPUserUpdate,
   RequestOptions,
 } from "./types";
-import type { AuthResponse } from "../../../auth";
-import { WPPaginatedResponse } from "../types";
-import { createPaginationHelpers } from "../utils";
 import {
-  apiGet,
-  apiGetPaginated,
-  apiPost,
-  apiPut,
-  apiDelete,
-  buildResourcePath,
-} from "../http";
+  WPContext,
+  WPEndpointsConfig,
+  WPFields,
+  WPFieldsParams,
+  WPGetParameters,
+  WPPaginatedResponse,
+} from "../types";
+import { createPaginationHelpers } from "../utils";
+import { createApiClient, buildResourcePath, buildItemParams } from "../http";
+import { createApplicationPasswordEndpoints } from "../application-passwords/endpoints";
 
 /**
  * Base path for WordPress users API endpoints
  */
 const BASE_PATH = "/wp/v2/users";
 
-/**
- * Users API endpoints configuration
- */
-interface UsersEndpointsConfig {
-  baseUrl: string;
-  auth?: AuthResponse;
-}
-
 /**
  * Users API endpoints
  */
-export const createUsersEndpoints = ({
-  baseUrl,
-  auth,
-}: UsersEndpointsConfig) => {
+export const createUsersEndpoints = (config: WPEndpointsConfig) => {
+  const api = createApiClient(config);
+
   const endpoints = {
     /**
      * Get a list of users
@@ -54,23 +45,17 @@ export const createUsersEndpoints = ({
      * const controller = new AbortController();
      * const users = await api.users.list({}, { signal: controller.signal });
      */
-    list: async (
-      params?: WPUserParameters,
+    list: async <F extends string = never>(
+      params?: WPFieldsParams<WPUserParameters, WPUser, F>,
       options?: RequestOptions
-    ): Promise<WPPaginatedResponse<WPUser>> => {
-      return apiGetPaginated<WPUser>(
-        baseUrl,
-        BASE_PATH,
-        params,
-        auth,
-        options?.signal
-      );
+    ): Promise<WPPaginatedResponse<WPFields<WPUser, F>>> => {
+      return api.getPaginated<WPFields<WPUser, F>>(BASE_PATH, params, options);
     },
 
     /**
      * Get a single user by ID
      * @param id The user ID
-     * @param context Optional context to determine fields in response
+     * @param context Optional context to determine fields in response, or `{ context, _embed, _fields }`
      * @param options Optional request options (e.g., signal for aborting)
      * @returns Promise with the user data
      * @example
@@ -81,17 +66,15 @@ export const createUsersEndpoints = ({
      * const controller = new AbortController();
      * const user = await api.users.get(123, 'view', { signal: controller.signal });
      */
-    get: async (
+    get: async <F extends string = never>(
       id: number,
-      context: "view" | "embed" | "edit" = "view",
+      context?: WPContext | WPFieldsParams<WPGetParameters, WPUser, F>,
       options?: RequestOptions
-    ): Promise<WPUser> => {
-      return apiGet<WPUser>(
-        baseUrl,
+    ): Promise<WPFields<WPUser, F>> => {
+      return api.get<WPFields<WPUser, F>>(
         buildResourcePath(BASE_PATH, id),
-        { context },
-        auth,
-        options?.signal
+        buildItemParams(context),
+        options
       );
     },
 
@@ -120,7 +103,7 @@ export const createUsersEndpoints = ({
       data: WPUserCreate,
       options?: RequestOptions
     ): Promise<WPUser> => {
-      return apiPost<WPUser>(baseUrl, BASE_PATH, data, auth, options?.signal);
+      return api.post<WPUser>(BASE_PATH, data, options);
     },
 
     /**
@@ -146,13 +129,7 @@ export const createUsersEndpoints = ({
       data: WPUserUpdate,
       options?: RequestOptions
     ): Promise<WPUser> => {
-      return apiPut<WPUser>(
-        baseUrl,
-        buildResourcePath(BASE_PATH, id),
-        data,
-        auth,
-        options?.signal
-      );
+      return api.put<WPUser>(buildResourcePath(BASE_PATH, id), data, options);
     },
 
     /**
@@ -175,12 +152,10 @@ export const createUsersEndpoints = ({
       options?: RequestOptions
     ): Promise<WPUser> => {
       const params = reassign ? { reassign } : undefined;
-      return apiDelete<WPUser>(
-        baseUrl,
+      return api.delete<WPUser>(
         buildResourcePath(BASE_PATH, id),
         params,
-        auth,
-        options?.signal
+        options
       );
     },
 
@@ -197,20 +172,17 @@ export const createUsersEndpoints = ({
      * const me = await api.users.me({ signal: controller.signal });
      */
     me: async (options?: RequestOptions): Promise<WPUser> => {
-      return apiGet<WPUser>(
-        baseUrl,
-        `${BASE_PATH}/me`,
-        {},
-        auth,
-        options?.signal
-      );
+      return api.get<WPUser>(`${BASE_PATH}/me`, {}, options);
     },
   };
 
   // Add pagination helpers
-  const paginationHelpers = createPaginationHelpers(endpoints.list);
+  const paginationHelpers = createPaginationHelpers<WPUser, WPUserParameters>(
+    endpoints.list
+  );
   return {
     ...endpoints,
     ...paginationHelpers,
+    applicationPasswords: createApplicationPasswordEndpoints(config),
   };
 };
@@ -1,6 +1,56 @@
-import { WPPaginatedResponse } from "./types";
+import { RequestOptions, WPPaginatedResponse } from "./types";
 
-type ListFunction<T, P> = (params?: P) => Promise<WPPaginatedResponse<T>>;
+type ListFunction<T, P> = (
+  params?: P,
+  options?: RequestOptions
+) => Promise<WPPaginatedResponse<T>>;
+
+/**
+ * Default number of pages listAll() fetches at the same time
+ */
+const DEFAULT_LIST_ALL_CONCURRENCY = 4;
+
+/**
+ * Options for listAll()
+ */
+export interface WPListAllOptions extends RequestOptions {
+  /**
+   * Maximum number of pages requested at the same time. Default: 4
+   */
+  concurrency?: number;
+}
+
+/**
+ * Run async tasks with at most `concurrency` of them in flight, keeping result order.
+ * No new task starts once one has failed.
+ */
+async function mapWithConcurrency<T>(
+  count: number,
+  concurrency: number,
+  task: (index: number) => Promise<T>
+): Promise<T[]> {
+  const results = new Array<T>(count);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < count) {
+      const index = next++;
+      try {
+        results[index] = await task(index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(1, concurrency), count) }, worker)
+  );
+
+  return results;
+}
 
 /**
  * Creates pagination helper functions for a list endpoint
@@ -15,26 +65,37 @@ export function createPaginationHelpers<
     /**
      * Lists all items by automatically handling pagination
      * @param params Optional parameters for the list function (page and per_page will be overridden)
+     * @param options Optional request options, plus `concurrency` to cap parallel page requests
      * @returns Promise with all items
      */
-    listAll: async (params?: Omit<P, "page">): Promise<T[]> => {
-      const firstPage = await listFn({
-        ...params,
-        page: 1,
-        per_page: 100,
-      } as P);
+    listAll: async (
+      params?: Omit<P, "page">,
+      options?: WPListAllOptions
+    ): Promise<T[]> => {
+      const { concurrency = DEFAULT_LIST_ALL_CONCURRENCY, ...requestOptions } =
+        options || {};
+      const firstPage = await listFn(
+        {
+          ...params,
+          page: 1,
+          per_page: 100,
+        } as P,
+        requestOptions
+      );
       const totalPages = firstPage.pagination.totalPages;
 
-      if (totalPages === 1) {
+      if (totalPages <= 1) {
         return firstPage.items;
       }
 
-      const remainingPages = await Promise.all(
-        Array.from({ length: totalPages - 1 }, (_, i) =>
-          listFn({ ...params, page: i + 2, per_page: 100 } as P).then(
-            (response) => response.items
-          )
-        )
+      const remainingPages = await mapWithConcurrency(
+        totalPages - 1,
+        concurrency,
+        (i) =>
+          listFn(
+            { ...params, page: i + 2, per_page: 100 } as P,
+            requestOptions
+          ).then((response) => response.items)
       );
 
       return [...firstPage.items, ...remainingPages.flat()];
@@ -43,16 +104,18 @@ export function createPaginationHelpers<
     /**
      * Returns an async iterator that yields each page of results
      * @param params Optional parameters for the list function
+     * @param options Optional request options (e.g., AbortSignal or limiter override)
      * @returns AsyncGenerator that yields each page of results
      */
     pages: async function* (
-      params?: P
+      params?: P,
+      options?: RequestOptions
     ): AsyncGenerator<WPPaginatedResponse<T>, void, unknown> {
       let page = 1;
       let hasMore = true;
 
       while (hasMore) {
-        const response = await listFn({ ...params, page } as P);
+        const response = await listFn({ ...params, page } as P, options);
         yield response;
 
         const { totalPages = 1 } = response.pagination;
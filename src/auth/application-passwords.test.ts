@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildApplicationPasswordAuthorizationUrl,
+  parseApplicationPasswordCallback,
+} from "./application-passwords";
+import { createAuth } from "./index";
+
+describe("Application Passwords authorization flow", () => {
+  it("should build the authorization URL", () => {
+    const url = buildApplicationPasswordAuthorizationUrl(
+      "https://example.com/wp-admin/authorize-application.php",
+      {
+        appName: "My App",
+        appId: "0f6ee4b5-6a47-4c3a-9d8b-2f1c2e2f4a11",
+        successUrl: "https://app.example/callback",
+        rejectUrl: "https://app.example/rejected",
+      }
+    );
+
+    expect(url).toBe(
+      "https://example.com/wp-admin/authorize-application.php?app_name=My+App&app_id=0f6ee4b5-6a47-4c3a-9d8b-2f1c2e2f4a11&success_url=https%3A%2F%2Fapp.example%2Fcallback&reject_url=https%3A%2F%2Fapp.example%2Frejected"
+    );
+  });
+
+  it("should parse the callback into basic auth credentials", () => {
+    const credentials = parseApplicationPasswordCallback(
+      "https://app.example/callback?site_url=https%3A%2F%2Fexample.com&user_login=admin&password=abcd+efgh+ijkl"
+    );
+
+    expect(credentials).toEqual({
+      username: "admin",
+      password: "abcd efgh ijkl",
+      siteUrl: "https://example.com",
+    });
+    const headers = createAuth({ method: "basic", credentials })
+      .headers as Record<string, string>;
+    expect(atob(headers.Authorization.replace("Basic ", ""))).toBe(
+      "admin:abcd efgh ijkl"
+    );
+  });
+
+  it("should throw when the user rejected the request", () => {
+    expect(() => parseApplicationPasswordCallback("success=false")).toThrow(
+      "Application password authorization was rejected"
+    );
+    expect(() =>
+      parseApplicationPasswordCallback(new URLSearchParams("user_login=admin"))
+    ).toThrow("requires user_login and password");
+  });
+});
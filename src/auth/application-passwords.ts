@@ -0,0 +1,69 @@
+import {
+  ApplicationPasswordAuthorizationParams,
+  ApplicationPasswordCredentials,
+} from "./types";
+
+/**
+ * Build the URL that asks a user to approve an application password
+ * @param authorizationUrl The site's `authorize-application.php` URL, as advertised
+ * by the REST index (`authentication["application-passwords"].endpoints.authorization`)
+ * @param params The application name, id and redirect URLs
+ * @example
+ * const url = buildApplicationPasswordAuthorizationUrl(
+ *   "https://example.com/wp-admin/authorize-application.php",
+ *   { appName: "My App", successUrl: "https://app.example/callback" }
+ * );
+ * window.location.assign(url);
+ */
+export function buildApplicationPasswordAuthorizationUrl(
+  authorizationUrl: string,
+  params: ApplicationPasswordAuthorizationParams
+): string {
+  const url = new URL(authorizationUrl);
+  const query: Record<string, string | undefined> = {
+    app_name: params.appName,
+    app_id: params.appId,
+    success_url: params.successUrl,
+    reject_url: params.rejectUrl,
+  };
+
+  for (const [key, value] of Object.entries(query)) {
+    if (value !== undefined) url.searchParams.set(key, value);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Read the credentials WordPress appends to the success URL
+ * @param callback The callback URL, its query string, or its parsed search params
+ * @returns Credentials that can be passed to `createAuth({ method: "basic", credentials })`
+ * @throws Error when the user rejected the request or the query has no credentials
+ * @example
+ * const credentials = parseApplicationPasswordCallback(window.location.href);
+ * const auth = createAuth({ method: "basic", credentials });
+ */
+export function parseApplicationPasswordCallback(
+  callback: string | URLSearchParams
+): ApplicationPasswordCredentials {
+  const params =
+    typeof callback === "string"
+      ? new URLSearchParams(
+          callback.slice(callback.indexOf("?") + 1).split("#")[0]
+        )
+      : callback;
+
+  if (params.get("success") === "false") {
+    throw new Error("Application password authorization was rejected");
+  }
+
+  const username = params.get("user_login");
+  const password = params.get("password");
+  if (!username || !password) {
+    throw new Error(
+      "Application password callback requires user_login and password"
+    );
+  }
+
+  return { username, password, siteUrl: params.get("site_url") || "" };
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import { createAuth, createAuthChain } from "./index";
+import { getAuthIdentity } from "../api/wordpress/http";
+import { createPostsEndpoints } from "../api/wordpress/posts";
+import { WPApiError } from "../api/wordpress/errors";
+
+const baseUrl = "https://example.com/wp-json";
+const BASIC = `Basic ${btoa("admin:app pass")}`;
+
+const invalidNonce = () =>
+  jsonResponse(
+    { code: "rest_cookie_invalid_nonce", message: "Cookie check failed" },
+    403
+  );
+
+const headersOf = (call: [string, RequestInit]) =>
+  call[1].headers as Record<string, string>;
+
+describe("Multiple credentials", () => {
+  mockGlobalFetch();
+
+  const basic = () =>
+    createAuth({
+      method: "basic",
+      credentials: { username: "admin", password: "app pass" },
+    });
+
+  it("should override the configured auth per request", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({ method: "bearer", credentials: { token: "abc" } }),
+    });
+
+    await posts.get(1);
+    await posts.get(1, undefined, false, { auth: basic() });
+    await posts.get(1, undefined, false, { auth: false });
+
+    const calls = (global.fetch as any).mock.calls;
+    expect(headersOf(calls[0]).Authorization).toBe("Bearer abc");
+    expect(headersOf(calls[1]).Authorization).toBe(BASIC);
+    expect(headersOf(calls[2]).Authorization).toBeUndefined();
+  });
+
+  it("should renew the nonce, then fall back to the next provider", async () => {
+    const getNonce = vi.fn(async () => "fresh123");
+    (global.fetch as any).mockImplementation(
+      async (_url: string, init: RequestInit) =>
+        (init.headers as Record<string, string>).Authorization === BASIC
+          ? jsonResponse({ id: 1 })
+          : invalidNonce()
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuthChain([
+        createAuth({
+          method: "nonce",
+          credentials: { nonce: "expired", getNonce },
+        }),
+        basic(),
+      ]),
+    });
+
+    expect((await posts.get(1)).id).toBe(1);
+    expect((await posts.get(2)).id).toBe(1);
+
+    const calls = (global.fetch as any).mock.calls;
+    expect(calls.map(headersOf).map((h: any) => h["X-WP-Nonce"])).toEqual([
+      "expired",
+      "fresh123",
+      undefined,
+      undefined,
+    ]);
+    expect(headersOf(calls[3]).Authorization).toBe(BASIC);
+    expect(calls[3][1].credentials).toBeUndefined();
+    expect(getNonce).toHaveBeenCalledOnce();
+  });
+
+  it("should fall back when a refresh fails and throw once providers run out", async () => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(
+        { code: "rest_not_logged_in", message: "Not logged in" },
+        401
+      )
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuthChain([
+        createAuth({
+          method: "nonce",
+          credentials: {
+            nonce: "expired",
+            getNonce: async () => {
+              throw new Error("Logged out");
+            },
+          },
+        }),
+        basic(),
+      ]),
+    });
+    (global.fetch as any).mockImplementationOnce(async () => invalidNonce());
+
+    const error = await posts.get(1).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WPApiError);
+    expect(error.code).toBe("rest_not_logged_in");
+    const calls = (global.fetch as any).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(headersOf(calls[1]).Authorization).toBe(BASIC);
+  });
+
+  it("should take its identity from the active provider", async () => {
+    const nonce = createAuth({
+      method: "nonce",
+      credentials: { nonce: "abc" },
+    });
+    const hmac = createAuth({
+      method: "hmac",
+      credentials: { apiKey: "key-1", secret: "s3cret" },
+    });
+    const chain = createAuthChain([nonce, hmac]);
+
+    expect(await getAuthIdentity(chain)).toBe(await getAuthIdentity(nonce));
+
+    await chain.shouldRefresh!(
+      jsonResponse({ code: "rest_forbidden", message: "Forbidden" }, 403)
+    );
+    await chain.refresh!();
+
+    expect(await getAuthIdentity(chain)).toBe(await getAuthIdentity(hmac));
+    expect(await getAuthIdentity(chain)).not.toBe("anonymous");
+  });
+
+  it("should require at least one provider", () => {
+    expect(() => createAuthChain([])).toThrow(/at least one provider/);
+  });
+});
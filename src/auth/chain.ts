@@ -0,0 +1,99 @@
+import { AuthRequest, AuthResponse } from "./types";
+import { WPApiError } from "../api/wordpress/errors";
+import { resolveAuthIdentity, toHeaderRecord } from "../api/wordpress/http";
+
+/**
+ * Combine providers that are tried in order. Requests use the first provider until
+ * it gets an auth error (401/403); it is then refreshed once if it supports that,
+ * and otherwise the chain falls back to the next provider for this and later requests.
+ * @param providers Providers from `createAuth`, most preferred first
+ * @example
+ * const auth = createAuthChain([
+ *   createAuth({ method: "nonce", credentials: { nonce, nonceUrl } }),
+ *   createAuth({ method: "basic", credentials: applicationPassword }),
+ * ]);
+ */
+export function createAuthChain(providers: AuthResponse[]): AuthResponse {
+  if (!providers.length) {
+    throw new Error("An auth chain requires at least one provider");
+  }
+
+  const headers: Record<string, string> = {};
+  let active = 0;
+  // Whether the active provider already refreshed without a successful response since
+  let refreshed = false;
+  // What refresh() should do, decided by the last shouldRefresh() call
+  let next: { action: "refresh" | "fallback"; provider: number } | undefined;
+
+  const current = () => providers[active];
+
+  // Providers may replace their headers (e.g. after a token refresh), so copy them before each request
+  const syncHeaders = () => {
+    Object.keys(headers).forEach((name) => delete headers[name]);
+    Object.assign(headers, toHeaderRecord(current().headers));
+  };
+  syncHeaders();
+
+  return {
+    headers,
+    // Providers without a declared identity (e.g. request signers) still get one of their own
+    get identity() {
+      return resolveAuthIdentity(current());
+    },
+    get credentials() {
+      return current().credentials;
+    },
+    refreshLimit: providers.reduce(
+      (limit, provider) => limit + (provider.refreshLimit ?? 1) + 1,
+      0
+    ),
+    beforeRequest: async () => {
+      await current().beforeRequest?.();
+      syncHeaders();
+    },
+    signRequest: (request: AuthRequest) => current().signRequest?.(request),
+    afterRequest: async (response) => {
+      refreshed = false;
+      const { afterRequest } = current();
+      return afterRequest ? afterRequest(response) : response;
+    },
+    shouldRefresh: async (response) => {
+      const provider = current();
+      if (
+        !refreshed &&
+        provider.shouldRefresh &&
+        (await provider.shouldRefresh(response))
+      ) {
+        next = { action: "refresh", provider: active };
+      } else if (
+        active < providers.length - 1 &&
+        (await WPApiError.fromResponse(response.clone())).isAuthError
+      ) {
+        next = { action: "fallback", provider: active };
+      } else {
+        next = undefined;
+      }
+      return next !== undefined;
+    },
+    refresh: async () => {
+      // Concurrent requests may report the same failure; only act on the provider still in use
+      if (!next || next.provider !== active) return syncHeaders();
+
+      if (next.action === "refresh") {
+        refreshed = true;
+        try {
+          await current().refresh?.();
+        } catch (error) {
+          // e.g. the login cookie behind a nonce is gone: try the next provider instead
+          if (active === providers.length - 1) throw error;
+          active++;
+          refreshed = false;
+        }
+      } else {
+        active++;
+        refreshed = false;
+      }
+      syncHeaders();
+    },
+  };
+}
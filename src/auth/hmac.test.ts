@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import { createHash, createHmac } from "node:crypto";
+import { createAuth } from "./index";
+import { createPostsEndpoints } from "../api/wordpress/posts";
+
+const sha256 = (value: string) =>
+  createHash("sha256").update(value).digest("hex");
+
+describe("HMAC signing", () => {
+  mockGlobalFetch();
+
+  beforeEach(() => {
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ id: 1 })
+    );
+    vi.spyOn(Date, "now").mockReturnValue(1700000000000);
+  });
+
+  it("should sign method, path, sorted query, body hash and timestamp", async () => {
+    const posts = createPostsEndpoints({
+      baseUrl: "https://example.com/wp-json",
+      auth: createAuth({
+        method: "hmac",
+        credentials: { apiKey: "key-1", secret: "s3cret" },
+      }),
+    });
+
+    await posts.list({ per_page: 5, page: 2 });
+    await posts.create({ title: "Hello", content: "World" });
+
+    const [, getInit] = (global.fetch as any).mock.calls[0];
+    expect(getInit.headers["X-Key-Id"]).toBe("key-1");
+    expect(getInit.headers["X-Timestamp"]).toBe("1700000000");
+    expect(getInit.headers["X-Signature"]).toBe(
+      createHmac("sha256", "s3cret")
+        .update(
+          `GET\n/wp-json/wp/v2/posts\npage=2&per_page=5\n${sha256(
+            ""
+          )}\n1700000000`
+        )
+        .digest("hex")
+    );
+
+    const [, postInit] = (global.fetch as any).mock.calls[1];
+    expect(postInit.headers["X-Signature"]).toBe(
+      createHmac("sha256", "s3cret")
+        .update(
+          `POST\n/wp-json/wp/v2/posts\n\n${sha256(postInit.body)}\n1700000000`
+        )
+        .digest("hex")
+    );
+  });
+
+  it("should use custom header names, canonicalization and encoding", async () => {
+    const posts = createPostsEndpoints({
+      baseUrl: "https://example.com/wp-json",
+      auth: createAuth({
+        method: "hmac",
+        credentials: {
+          apiKey: "key-1",
+          secret: "s3cret",
+          headers: { signature: "X-Gateway-Signature", keyId: "X-Gateway-Key" },
+          canonicalize: ({ method, path, timestamp }) =>
+            `${timestamp}:${method}:${path}`,
+          encoding: "base64",
+        },
+      }),
+      // Headers added by middleware are sent, and the signature still covers the request
+      middleware: [
+        async (ctx, next) => {
+          ctx.headers["X-Request-Id"] = "abc";
+          return next();
+        },
+      ],
+    });
+
+    await posts.get(1);
+
+    const [, init] = (global.fetch as any).mock.calls[0];
+    expect(init.headers["X-Request-Id"]).toBe("abc");
+    expect(init.headers["X-Gateway-Key"]).toBe("key-1");
+    expect(init.headers["X-Gateway-Signature"]).toBe(
+      createHmac("sha256", "s3cret")
+        .update("1700000000:GET:/wp-json/wp/v2/posts/1")
+        .digest("base64")
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  AuthRequest,
+  HmacAuthCredentials,
+  HmacCanonicalRequest,
+  HmacHeaderNames,
+} from "./types";
+
+/**
+ * Header names used when the credentials do not override them
+ */
+const DEFAULT_HMAC_HEADERS: HmacHeaderNames = {
+  signature: "X-Signature",
+  keyId: "X-Key-Id",
+  timestamp: "X-Timestamp",
+};
+
+const encoder = new TextEncoder();
+
+const compare = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+const toBase64 = (buffer: ArrayBuffer) => {
+  let binary = "";
+  new Uint8Array(buffer).forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+/**
+ * Bytes of a request body as sent. Multipart bodies are re-encoded by fetch
+ * with a random boundary, so they are signed as an empty body.
+ */
+async function bodyBytes(body?: BodyInit | null): Promise<BufferSource> {
+  if (body === undefined || body === null) return new Uint8Array(0);
+  if (typeof body === "string") return encoder.encode(body);
+  if (body instanceof URLSearchParams) return encoder.encode(body.toString());
+  if (typeof FormData !== "undefined" && body instanceof FormData) {
+    return new Uint8Array(0);
+  }
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body;
+  return new Response(body).arrayBuffer();
+}
+
+/**
+ * Default string to sign: method, path, sorted query, body hash and timestamp, one per line
+ * @example
+ * // GET /wp-json/wp/v2/posts?per_page=5&page=2 at 1700000000 signs:
+ * // GET
+ * // /wp-json/wp/v2/posts
+ * // page=2&per_page=5
+ * // e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855
+ * // 1700000000
+ */
+export function buildHmacCanonicalString(
+  request: HmacCanonicalRequest
+): string {
+  return [
+    request.method,
+    request.path,
+    request.query,
+    request.bodyHash,
+    request.timestamp,
+  ].join("\n");
+}
+
+/**
+ * Create a `signRequest` hook that signs requests with HMAC-SHA256 (Web Crypto)
+ * and sets the signature, key ID and timestamp headers
+ */
+export function createHmacSigner(credentials: HmacAuthCredentials) {
+  const headerNames = { ...DEFAULT_HMAC_HEADERS, ...credentials.headers };
+  const canonicalize = credentials.canonicalize || buildHmacCanonicalString;
+  let key: Promise<CryptoKey> | undefined;
+
+  return async (request: AuthRequest): Promise<void> => {
+    key =
+      key ||
+      crypto.subtle.importKey(
+        "raw",
+        encoder.encode(credentials.secret),
+        { name: "HMAC", hash: "SHA-256" },
+        false,
+        ["sign"]
+      );
+
+    const url = new URL(request.url);
+    const query = Array.from(url.searchParams.entries())
+      .sort(([a, x], [b, y]) => compare(a, b) || compare(x, y))
+      .map(
+        ([name, value]) =>
+          `${encodeURIComponent(name)}=${encodeURIComponent(value)}`
+      )
+      .join("&");
+    const bodyHash = toHex(
+      await crypto.subtle.digest("SHA-256", await bodyBytes(request.body))
+    );
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const signature = await crypto.subtle.sign(
+      "HMAC",
+      await key,
+      encoder.encode(
+        canonicalize({
+          method: request.method.toUpperCase(),
+          path: url.pathname,
+          query,
+          bodyHash,
+          timestamp,
+        })
+      )
+    );
+
+    request.headers[headerNames.signature] =
+      credentials.encoding === "base64"
+        ? toBase64(signature)
+        : toHex(signature);
+    request.headers[headerNames.keyId] = credentials.apiKey;
+    request.headers[headerNames.timestamp] = timestamp;
+  };
+}
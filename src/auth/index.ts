@@ -2,9 +2,15 @@ import { AuthConfig, AuthResponse } from "./types";
 import { AuthProviders } from "./providers";
 
 export * from "./types";
+export * from "./application-passwords";
+export * from "./oauth2";
+export * from "./hmac";
+export * from "./jwt";
+export * from "./token-store";
+export * from "./chain";
 
 export function createAuth(config: AuthConfig): AuthResponse {
-  const { method, credentials, onTokenRefresh } = config;
+  const { method, credentials, onTokenRefresh, tokenStore } = config;
 
   switch (method) {
     case "none":
@@ -20,7 +26,7 @@ export function createAuth(config: AuthConfig): AuthResponse {
       if (!credentials || "token" in credentials === false) {
         throw new Error("Bearer auth requires a token");
       }
-      return AuthProviders.bearer(credentials, onTokenRefresh);
+      return AuthProviders.bearer(credentials, onTokenRefresh, tokenStore);
 
     case "apiKey":
       if (!credentials || "apiKey" in credentials === false) {
@@ -42,17 +48,24 @@ export function createAuth(config: AuthConfig): AuthResponse {
       if (!credentials || "nonce" in credentials === false) {
         throw new Error("Nonce auth requires a nonce");
       }
-      return AuthProviders.nonce(credentials);
+      return AuthProviders.nonce(credentials, onTokenRefresh);
 
     case "oauth2":
+      if (!credentials || "clientId" in credentials === false) {
+        throw new Error("OAuth2 requires a clientId");
+      }
+      return AuthProviders.oauth2(credentials, onTokenRefresh, tokenStore);
+
+    case "jwt":
       if (
         !credentials ||
-        "clientId" in credentials === false ||
-        "clientSecret" in credentials === false
+        "baseUrl" in credentials === false ||
+        "username" in credentials === false ||
+        "password" in credentials === false
       ) {
-        throw new Error("OAuth2 requires clientId and clientSecret");
+        throw new Error("JWT auth requires a baseUrl, username and password");
       }
-      return AuthProviders.oauth2(credentials, onTokenRefresh);
+      return AuthProviders.jwt(credentials, onTokenRefresh, tokenStore);
 
     default:
       throw new Error(`Unsupported auth method: ${method}`);
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import { createAuth } from "./index";
+import { getJwtExpiry, requestJwtToken } from "./jwt";
+import { createMemoryTokenStore } from "./token-store";
+import { createPostsEndpoints } from "../api/wordpress/posts";
+import { WPNetworkError, WPParseError } from "../api/wordpress/errors";
+
+const baseUrl = "https://example.com/wp-json";
+
+// Unsigned token with the given claims; only the payload is read client-side
+const makeJwt = (claims: Record<string, unknown>) =>
+  `e30.${btoa(JSON.stringify(claims))}.signature`;
+
+const inOneHour = () => Math.floor(Date.now() / 1000) + 3600;
+
+describe("JWT authentication", () => {
+  mockGlobalFetch();
+
+  const calls = () =>
+    (global.fetch as any).mock.calls.map(([url]: [string]) => url);
+
+  it("should log in before the first request", async () => {
+    const token = makeJwt({ exp: inOneHour() });
+    const onTokenRefresh = vi.fn();
+    (global.fetch as any).mockImplementation(async (url: string) =>
+      url.endsWith("/simple-jwt-login/v1/auth")
+        ? jsonResponse({ success: true, data: { jwt: token } })
+        : jsonResponse({ id: 1 })
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "jwt",
+        credentials: {
+          baseUrl,
+          username: "admin",
+          password: "secret",
+          route: "/simple-jwt-login/v1/auth",
+        },
+        onTokenRefresh,
+      }),
+    });
+
+    await Promise.all([posts.get(1), posts.get(1)]);
+
+    expect(calls()).toEqual([
+      `${baseUrl}/simple-jwt-login/v1/auth`,
+      `${baseUrl}/wp/v2/posts/1`,
+      `${baseUrl}/wp/v2/posts/1`,
+    ]);
+    expect(JSON.parse((global.fetch as any).mock.calls[0][1].body)).toEqual({
+      username: "admin",
+      password: "secret",
+    });
+    expect((global.fetch as any).mock.calls[1][1].headers.Authorization).toBe(
+      `Bearer ${token}`
+    );
+    expect(onTokenRefresh).toHaveBeenCalledWith(token);
+  });
+
+  it("should validate a stored token and log in again when it is invalid", async () => {
+    const fresh = makeJwt({ exp: inOneHour() });
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      if (url.endsWith("/token/validate")) {
+        return jsonResponse({ code: "jwt_auth_invalid_token" }, 403);
+      }
+      if (url.endsWith("/token")) return jsonResponse({ token: fresh });
+      return jsonResponse({ id: 1 });
+    });
+    const auth = createAuth({
+      method: "jwt",
+      credentials: {
+        baseUrl,
+        username: "admin",
+        password: "secret",
+        jwt: "revoked",
+      },
+    });
+
+    await auth.beforeRequest!();
+    await auth.beforeRequest!();
+
+    expect(calls()).toEqual([
+      `${baseUrl}/jwt-auth/v1/token/validate`,
+      `${baseUrl}/jwt-auth/v1/token`,
+    ]);
+    expect((auth.headers as Record<string, string>).Authorization).toBe(
+      `Bearer ${fresh}`
+    );
+  });
+
+  it("should keep the token in the token store", async () => {
+    const token = makeJwt({ exp: inOneHour() });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ token })
+    );
+    const tokenStore = createMemoryTokenStore();
+    const credentials = () => ({
+      baseUrl,
+      username: "admin",
+      password: "secret",
+    });
+
+    await createAuth({ method: "jwt", credentials: credentials(), tokenStore })
+      .beforeRequest!();
+
+    expect(await tokenStore.get()).toEqual({
+      accessToken: token,
+      expiresAt: getJwtExpiry(token),
+    });
+
+    // A new session picks up the stored token without logging in again
+    const restored = createAuth({
+      method: "jwt",
+      credentials: credentials(),
+      tokenStore,
+    });
+    await restored.beforeRequest!();
+
+    expect(global.fetch).toHaveBeenCalledOnce();
+    expect((restored.headers as Record<string, string>).Authorization).toBe(
+      `Bearer ${token}`
+    );
+  });
+
+  it("should log in again before the token expires", async () => {
+    const expiring = makeJwt({ exp: Math.floor(Date.now() / 1000) + 30 });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ token: makeJwt({ exp: inOneHour() }) })
+    );
+
+    expect(getJwtExpiry(expiring)).toBe(
+      (Math.floor(Date.now() / 1000) + 30) * 1000
+    );
+
+    const auth = createAuth({
+      method: "jwt",
+      credentials: { baseUrl, username: "admin", password: "secret" },
+    });
+    (global.fetch as any).mockImplementationOnce(async () =>
+      jsonResponse({ token: expiring })
+    );
+
+    await auth.beforeRequest!();
+    await auth.beforeRequest!();
+    await auth.beforeRequest!();
+
+    expect(calls()).toEqual([
+      `${baseUrl}/jwt-auth/v1/token`,
+      `${baseUrl}/jwt-auth/v1/token`,
+    ]);
+  });
+
+  it("should log in again once on jwt_auth_invalid_token", async () => {
+    const first = makeJwt({ exp: inOneHour(), n: 1 });
+    const second = makeJwt({ exp: inOneHour(), n: 2 });
+    const tokens = [first, second];
+    (global.fetch as any).mockImplementation(
+      async (url: string, init: RequestInit) => {
+        if (url.endsWith("/token")) {
+          return jsonResponse({ token: tokens.shift() });
+        }
+        const authorization = (init.headers as Record<string, string>)
+          .Authorization;
+        return authorization === `Bearer ${second}`
+          ? jsonResponse({ id: 1 })
+          : jsonResponse(
+              { code: "jwt_auth_invalid_token", message: "Expired token" },
+              403
+            );
+      }
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "jwt",
+        credentials: { baseUrl, username: "admin", password: "secret" },
+      }),
+    });
+
+    expect((await posts.get(1)).id).toBe(1);
+    expect(calls()).toEqual([
+      `${baseUrl}/jwt-auth/v1/token`,
+      `${baseUrl}/wp/v2/posts/1`,
+      `${baseUrl}/jwt-auth/v1/token`,
+      `${baseUrl}/wp/v2/posts/1`,
+    ]);
+  });
+
+  it("should log in through the configured fetch and raise library errors", async () => {
+    const credentials = { baseUrl, username: "admin", password: "secret" };
+    const transport = vi.fn(async () => jsonResponse({ success: true }));
+
+    await expect(
+      requestJwtToken({ ...credentials, fetch: transport })
+    ).rejects.toBeInstanceOf(WPParseError);
+    expect(transport).toHaveBeenCalledOnce();
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    (global.fetch as any).mockRejectedValue(new TypeError("fetch failed"));
+    await expect(requestJwtToken(credentials)).rejects.toBeInstanceOf(
+      WPNetworkError
+    );
+
+    expect(() =>
+      createAuth({
+        method: "jwt",
+        credentials: { baseUrl, username: "admin" } as any,
+      })
+    ).toThrow("JWT auth requires a baseUrl, username and password");
+  });
+});
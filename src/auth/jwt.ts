@@ -0,0 +1,87 @@
+import { JwtAuthCredentials } from "./types";
+import { readAuthResponse, sendAuthRequest } from "./request";
+import { WPApiError } from "../api/wordpress/errors";
+import { normalizeUrl } from "../api/wordpress/http";
+
+/**
+ * Login route of the "JWT Authentication for WP REST API" plugin
+ */
+const DEFAULT_JWT_ROUTE = "/jwt-auth/v1/token";
+
+const jwtRoute = (credentials: JwtAuthCredentials) =>
+  credentials.route || DEFAULT_JWT_ROUTE;
+
+/**
+ * Decode the payload of a JWT without verifying it
+ * @returns The payload claims, or undefined when the token is malformed
+ */
+export function decodeJwtPayload(
+  token: string
+): Record<string, unknown> | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+
+  try {
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(
+      atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), "="))
+    );
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * When a JWT expires (ms since epoch), from its `exp` claim
+ */
+export function getJwtExpiry(token: string): number | undefined {
+  const exp = decodeJwtPayload(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : undefined;
+}
+
+/**
+ * Log in with username and password and return the issued token
+ * @throws WPApiError with the plugin's error code (e.g., "[jwt_auth] incorrect_password"),
+ * WPParseError when the response carries no token, WPNetworkError or WPTimeoutError
+ */
+export async function requestJwtToken(
+  credentials: JwtAuthCredentials
+): Promise<string> {
+  const response = await sendAuthRequest(
+    normalizeUrl(credentials.baseUrl, jwtRoute(credentials)),
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        username: credentials.username,
+        password: credentials.password,
+      }),
+    },
+    credentials
+  );
+  if (!response.ok) throw await WPApiError.fromResponse(response);
+
+  // JWT Authentication returns { token }, Simple JWT Login { data: { jwt } }
+  return readAuthResponse<string>(
+    response,
+    (data) => data?.token || data?.data?.jwt,
+    "JWT login response does not contain a token"
+  );
+}
+
+/**
+ * Ask the plugin whether a token is still valid
+ */
+export async function validateJwtToken(
+  credentials: JwtAuthCredentials,
+  token: string
+): Promise<boolean> {
+  const route =
+    credentials.validateRoute || `${jwtRoute(credentials)}/validate`;
+  const response = await sendAuthRequest(
+    normalizeUrl(credentials.baseUrl, route),
+    { method: "POST", headers: { Authorization: `Bearer ${token}` } },
+    credentials
+  );
+  return response.ok;
+}
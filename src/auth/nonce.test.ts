@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import { createAuth } from "./index";
+import { createPostsEndpoints } from "../api/wordpress/posts";
+import { WPApiError, WPError } from "../api/wordpress/errors";
+
+const baseUrl = "https://example.com/wp-json";
+const NONCE_URL =
+  "https://example.com/wp-admin/admin-ajax.php?action=rest-nonce";
+
+const invalidNonce = () =>
+  jsonResponse(
+    { code: "rest_cookie_invalid_nonce", message: "Cookie check failed" },
+    403
+  );
+
+describe("Nonce renewal", () => {
+  mockGlobalFetch();
+
+  it("should renew an expired nonce from nonceUrl and retry once", async () => {
+    (global.fetch as any).mockImplementation(
+      async (url: string, init: RequestInit) => {
+        if (url === NONCE_URL) return new Response("fresh123\n");
+        const nonce = (init.headers as Record<string, string>)["X-WP-Nonce"];
+        return nonce === "fresh123" ? jsonResponse({ id: 1 }) : invalidNonce();
+      }
+    );
+    const onTokenRefresh = vi.fn();
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "nonce",
+        credentials: { nonce: "expired", nonceUrl: NONCE_URL },
+        onTokenRefresh,
+      }),
+    });
+
+    expect((await posts.get(1)).id).toBe(1);
+
+    const calls = (global.fetch as any).mock.calls;
+    expect(calls.map(([url]: [string]) => url)).toEqual([
+      `${baseUrl}/wp/v2/posts/1`,
+      NONCE_URL,
+      `${baseUrl}/wp/v2/posts/1`,
+    ]);
+    // Cookies must be sent for the nonce to authenticate
+    for (const [, init] of calls) {
+      expect(init.credentials).toBe("include");
+    }
+    expect(onTokenRefresh).toHaveBeenCalledWith("fresh123");
+  });
+
+  it("should share one renewal between concurrent requests", async () => {
+    const getNonce = vi.fn(async () => "fresh123");
+    (global.fetch as any).mockImplementation(
+      async (_url: string, init: RequestInit) => {
+        const nonce = (init.headers as Record<string, string>)["X-WP-Nonce"];
+        return nonce === "fresh123" ? jsonResponse({ id: 1 }) : invalidNonce();
+      }
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "nonce",
+        credentials: { nonce: "expired", getNonce },
+      }),
+    });
+
+    await Promise.all([posts.get(1), posts.get(2)]);
+
+    expect(getNonce).toHaveBeenCalledOnce();
+    expect(global.fetch).toHaveBeenCalledTimes(4);
+  });
+
+  it("should report the expired nonce when renewal fails", async () => {
+    const nonceFetch = vi.fn(async () => new Response("0"));
+    (global.fetch as any).mockImplementation(async () => invalidNonce());
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "nonce",
+        credentials: {
+          nonce: "expired",
+          nonceUrl: NONCE_URL,
+          fetch: nonceFetch,
+        },
+      }),
+    });
+
+    const error = await posts.get(1).catch((e) => e);
+
+    expect(nonceFetch).toHaveBeenCalledWith(
+      NONCE_URL,
+      expect.objectContaining({ credentials: "include" })
+    );
+    expect(error).toBeInstanceOf(WPApiError);
+    expect(error.status).toBe(403);
+    expect(error.code).toBe("rest_cookie_invalid_nonce");
+    expect(error.isAuthError).toBe(true);
+    expect(error.cause).toBeInstanceOf(WPError);
+  });
+
+  it("should not retry other 403 errors", async () => {
+    const getNonce = vi.fn(async () => "fresh123");
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ code: "rest_forbidden", message: "Forbidden" }, 403)
+    );
+    const posts = createPostsEndpoints({
+      baseUrl,
+      auth: createAuth({
+        method: "nonce",
+        credentials: { nonce: "abc", getNonce },
+      }),
+    });
+
+    const error = await posts.get(1).catch((e) => e);
+
+    expect(error).toBeInstanceOf(WPApiError);
+    expect(error.code).toBe("rest_forbidden");
+    expect(getNonce).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import {
+  buildOAuth2AuthorizationUrl,
+  createPkcePair,
+  exchangeOAuth2Code,
+} from "./oauth2";
+import { AuthProviders } from "./providers";
+import { createPostsEndpoints } from "../api/wordpress/posts";
+import {
+  WPApiError,
+  WPNetworkError,
+  WPTimeoutError,
+} from "../api/wordpress/errors";
+
+const TOKEN_URL = "https://example.com/oauth/token";
+
+describe("OAuth2", () => {
+  mockGlobalFetch();
+
+  it("should build a PKCE authorization URL", async () => {
+    const { codeVerifier, codeChallenge } = await createPkcePair();
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(codeVerifier)
+    );
+
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(codeChallenge).toBe(Buffer.from(digest).toString("base64url"));
+
+    const url = new URL(
+      buildOAuth2AuthorizationUrl("https://example.com/oauth/authorize", {
+        clientId: "my-app",
+        redirectUri: "https://app.example/callback",
+        codeChallenge,
+        scope: ["basic", "email"],
+        state: "xyz",
+      })
+    );
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      response_type: "code",
+      client_id: "my-app",
+      redirect_uri: "https://app.example/callback",
+      code_challenge: codeChallenge,
+      code_challenge_method: "S256",
+      scope: "basic email",
+      state: "xyz",
+    });
+  });
+
+  it("should exchange an authorization code for tokens", async () => {
+    vi.spyOn(Date, "now").mockReturnValue(1000);
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({
+        access_token: "access",
+        refresh_token: "refresh",
+        expires_in: 3600,
+        token_type: "Bearer",
+      })
+    );
+
+    const token = await exchangeOAuth2Code({
+      tokenUrl: TOKEN_URL,
+      clientId: "my-app",
+      code: "code123",
+      redirectUri: "https://app.example/callback",
+      codeVerifier: "verifier",
+    });
+
+    expect(token).toEqual({
+      accessToken: "access",
+      refreshToken: "refresh",
+      expiresAt: 3601000,
+      scope: undefined,
+      tokenType: "Bearer",
+    });
+    const [url, init] = (global.fetch as any).mock.calls[0];
+    expect(url).toBe(TOKEN_URL);
+    expect(init.body.toString()).toBe(
+      "grant_type=authorization_code&code=code123&redirect_uri=https%3A%2F%2Fapp.example%2Fcallback&code_verifier=verifier&client_id=my-app"
+    );
+  });
+
+  it("should send token requests through the configured transport", async () => {
+    const params = {
+      tokenUrl: TOKEN_URL,
+      clientId: "my-app",
+      code: "code123",
+      redirectUri: "https://app.example/callback",
+      codeVerifier: "verifier",
+    };
+    const transport = vi.fn(async () =>
+      jsonResponse(
+        { error: "invalid_grant", error_description: "Code expired" },
+        400
+      )
+    );
+
+    const rejected = await exchangeOAuth2Code({
+      ...params,
+      fetch: transport,
+    }).catch((e) => e);
+    expect(rejected).toBeInstanceOf(WPApiError);
+    expect(rejected).toMatchObject({ status: 400, code: "invalid_grant" });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const offline = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    await expect(
+      exchangeOAuth2Code({ ...params, fetch: offline })
+    ).rejects.toBeInstanceOf(WPNetworkError);
+
+    const hanging = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) =>
+          init.signal!.addEventListener("abort", () =>
+            reject(init.signal!.reason)
+          )
+        )
+    );
+    await expect(
+      exchangeOAuth2Code({ ...params, fetch: hanging, timeout: 5 })
+    ).rejects.toBeInstanceOf(WPTimeoutError);
+  });
+
+  it("should refresh proactively before the token expires", async () => {
+    const onRefresh = vi.fn();
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ access_token: "fresh", expires_in: 3600 })
+    );
+    const auth = AuthProviders.oauth2(
+      {
+        clientId: "my-app",
+        accessToken: "stale",
+        refreshToken: "refresh",
+        tokenUrl: TOKEN_URL,
+        scope: ["basic"],
+        expiresAt: Date.now() + 30 * 1000,
+      },
+      onRefresh
+    );
+
+    await auth.beforeRequest!();
+
+    expect((auth.headers as Record<string, string>).Authorization).toBe(
+      "Bearer fresh"
+    );
+    expect(onRefresh).toHaveBeenCalledWith("fresh", "refresh");
+    expect((global.fetch as any).mock.calls[0][1].body.toString()).toBe(
+      "grant_type=refresh_token&refresh_token=refresh&scope=basic&client_id=my-app"
+    );
+  });
+
+  it("should refresh once on a 401 and queue concurrent requests", async () => {
+    (global.fetch as any).mockImplementation(
+      async (url: string, init: RequestInit) => {
+        if (url === TOKEN_URL) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return jsonResponse({ access_token: "fresh", refresh_token: "r2" });
+        }
+        const authorization = (init.headers as Record<string, string>)
+          .Authorization;
+        return authorization === "Bearer fresh"
+          ? jsonResponse({ id: 1 })
+          : jsonResponse({ code: "rest_forbidden" }, 401);
+      }
+    );
+    const onRefresh = vi.fn();
+    const posts = createPostsEndpoints({
+      baseUrl: "https://example.com/wp-json",
+      auth: AuthProviders.oauth2(
+        {
+          clientId: "my-app",
+          accessToken: "expired",
+          refreshToken: "r1",
+          tokenUrl: TOKEN_URL,
+        },
+        onRefresh
+      ),
+    });
+
+    const results = await Promise.all([posts.get(1), posts.get(1)]);
+
+    expect(results.map((post) => post.id)).toEqual([1, 1]);
+    const tokenCalls = (global.fetch as any).mock.calls.filter(
+      ([url]: [string]) => url === TOKEN_URL
+    );
+    expect(tokenCalls).toHaveLength(1);
+    expect(onRefresh).toHaveBeenCalledOnce();
+    expect(onRefresh).toHaveBeenCalledWith("fresh", "r2");
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  AuthTransportOptions,
+  OAuth2AuthorizationParams,
+  OAuth2CodeExchangeParams,
+  OAuth2PkcePair,
+  OAuth2RefreshParams,
+  OAuth2Token,
+} from "./types";
+import { readAuthResponse, sendAuthRequest } from "./request";
+import { WPApiError } from "../api/wordpress/errors";
+import { parseJsonResponse } from "../api/wordpress/http";
+
+/**
+ * Encode bytes as unpadded base64url (RFC 7636)
+ */
+function base64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Create a PKCE code verifier and its S256 code challenge.
+ * Keep the verifier (e.g. in sessionStorage) until the code is exchanged.
+ * @example
+ * const { codeVerifier, codeChallenge } = await createPkcePair();
+ * sessionStorage.setItem("pkce", codeVerifier);
+ */
+export async function createPkcePair(): Promise<OAuth2PkcePair> {
+  const codeVerifier = base64Url(crypto.getRandomValues(new Uint8Array(32)));
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(codeVerifier)
+  );
+
+  return { codeVerifier, codeChallenge: base64Url(new Uint8Array(digest)) };
+}
+
+/**
+ * Build the URL that starts the authorization-code + PKCE flow
+ * @param authorizeUrl The OAuth2 server's authorization endpoint
+ * @param params Client, redirect URI, PKCE challenge, scope and state
+ * @example
+ * const url = buildOAuth2AuthorizationUrl("https://example.com/oauth/authorize", {
+ *   clientId: "my-app",
+ *   redirectUri: "https://app.example/callback",
+ *   codeChallenge,
+ *   scope: ["basic"],
+ *   state,
+ * });
+ */
+export function buildOAuth2AuthorizationUrl(
+  authorizeUrl: string,
+  params: OAuth2AuthorizationParams
+): string {
+  const url = new URL(authorizeUrl);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", params.clientId);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  if (params.scope?.length) {
+    url.searchParams.set("scope", params.scope.join(" "));
+  }
+  if (params.state) url.searchParams.set("state", params.state);
+
+  return url.toString();
+}
+
+/**
+ * POST a grant to the token endpoint and normalise the response
+ * @throws WPApiError with the OAuth2 `error` as code when the server rejects the grant,
+ * WPParseError when it answers without an access token
+ */
+async function requestToken(
+  tokenUrl: string,
+  grant: Record<string, string | undefined>,
+  transport: AuthTransportOptions
+): Promise<OAuth2Token> {
+  const body = new URLSearchParams();
+  for (const [key, value] of Object.entries(grant)) {
+    if (value !== undefined) body.set(key, value);
+  }
+
+  const response = await sendAuthRequest(
+    tokenUrl,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body,
+    },
+    transport
+  );
+  if (!response.ok) {
+    // Token endpoints report { error, error_description }, but may answer with an HTML page
+    const data: Record<string, any> = await parseJsonResponse<
+      Record<string, any>
+    >(response.clone()).catch(() => ({}));
+    throw new WPApiError(
+      `OAuth2 token request failed: ${
+        data.error_description || data.error || response.statusText
+      }`,
+      response.status,
+      { code: data.error, response }
+    );
+  }
+  const data = await readAuthResponse<Record<string, any>>(
+    response,
+    (body) => (body?.access_token ? body : undefined),
+    "OAuth2 token response does not contain an access_token"
+  );
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt:
+      typeof data.expires_in === "number"
+        ? Date.now() + data.expires_in * 1000
+        : undefined,
+    scope: data.scope ? String(data.scope).split(" ") : undefined,
+    tokenType: data.token_type,
+  };
+}
+
+/**
+ * Exchange an authorization code for tokens
+ * @example
+ * const code = new URL(location.href).searchParams.get("code")!;
+ * const token = await exchangeOAuth2Code({
+ *   tokenUrl: "https://example.com/oauth/token",
+ *   clientId: "my-app",
+ *   redirectUri: "https://app.example/callback",
+ *   code,
+ *   codeVerifier: sessionStorage.getItem("pkce")!,
+ * });
+ */
+export function exchangeOAuth2Code(
+  params: OAuth2CodeExchangeParams
+): Promise<OAuth2Token> {
+  return requestToken(
+    params.tokenUrl,
+    {
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      code_verifier: params.codeVerifier,
+      client_id: params.clientId,
+      client_secret: params.clientSecret,
+    },
+    params
+  );
+}
+
+/**
+ * Get a new access token with the refresh_token grant.
+ * Servers that do not rotate refresh tokens omit `refreshToken` from the result.
+ */
+export function refreshOAuth2Token(
+  params: OAuth2RefreshParams
+): Promise<OAuth2Token> {
+  return requestToken(
+    params.tokenUrl,
+    {
+      grant_type: "refresh_token",
+      refresh_token: params.refreshToken,
+      scope: params.scope?.length ? params.scope.join(" ") : undefined,
+      client_id: params.clientId,
+      client_secret: params.clientSecret,
+    },
+    params
+  );
+}
@@ -75,11 +75,12 @@ describe("AuthProviders", () => {
       expect(headers.Authorization).toBe("Bearer abc123xyz");
     });
 
-    it("should include refresh function when refreshToken is provided", () => {
+    it("should include refresh function when getToken is provided", () => {
       const auth = AuthProviders.bearer(
         {
           token: "abc123",
           refreshToken: "refresh456",
+          getToken: async () => ({ accessToken: "def456" }),
         },
         async (newToken) => {
           // Callback
@@ -89,6 +90,16 @@ describe("AuthProviders", () => {
       expect(auth.refresh).toBeDefined();
       expect(auth.refresh).toBeTypeOf("function");
     });
+
+    it("should not refresh without getToken", () => {
+      const auth = AuthProviders.bearer({
+        token: "abc123",
+        refreshToken: "refresh456",
+      });
+
+      expect(auth.refresh).toBeUndefined();
+      expect(auth.shouldRefresh).toBeUndefined();
+    });
   });
 
   describe("apiKey", () => {
@@ -116,15 +127,15 @@ describe("AuthProviders", () => {
   });
 
   describe("hmac", () => {
-    it("should create HMAC auth response with beforeRequest hook", () => {
+    it("should create HMAC auth response with signRequest hook", () => {
       const auth = AuthProviders.hmac({
         apiKey: "key123",
         secret: "secret456",
       });
 
       expect(auth.headers).toEqual({});
-      expect(auth.beforeRequest).toBeDefined();
-      expect(auth.beforeRequest).toBeTypeOf("function");
+      expect(auth.signRequest).toBeDefined();
+      expect(auth.signRequest).toBeTypeOf("function");
     });
   });
 
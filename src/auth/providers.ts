@@ -6,12 +6,59 @@ import {
   HmacAuthCredentials,
   NonceAuthCredentials,
   OAuth2Credentials,
+  JwtAuthCredentials,
+  StoredToken,
+  TokenStore,
 } from "./types";
+import { refreshOAuth2Token } from "./oauth2";
+import { createHmacSigner } from "./hmac";
+import { getJwtExpiry, requestJwtToken, validateJwtToken } from "./jwt";
+import { sendAuthRequest } from "./request";
+import { WPApiError, WPError } from "../api/wordpress/errors";
+
+/**
+ * Refresh OAuth2 and JWT tokens this long (ms) before they expire
+ */
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+/**
+ * WordPress error code for an expired or invalid REST nonce
+ */
+const NONCE_INVALID_CODE = "rest_cookie_invalid_nonce";
+
+/**
+ * Get a fresh REST nonce from the callback or URL configured in the credentials
+ */
+async function fetchNonce(credentials: NonceAuthCredentials): Promise<string> {
+  if (credentials.getNonce) return credentials.getNonce();
+
+  const response = await sendAuthRequest(
+    credentials.nonceUrl!,
+    { credentials: "include" },
+    credentials
+  );
+  if (!response.ok) throw await WPApiError.fromResponse(response);
+
+  const nonce = (await response.text()).trim();
+  // admin-ajax.php answers "0" when the login cookie is gone
+  if (!nonce || nonce === "0") {
+    throw new WPError(
+      `Could not renew the REST nonce from ${credentials.nonceUrl}: not logged in`
+    );
+  }
+  return nonce;
+}
+
+/**
+ * WordPress error code for a rejected or expired JWT
+ */
+const JWT_INVALID_TOKEN_CODE = "jwt_auth_invalid_token";
 
 export class AuthProviders {
   static none(): AuthResponse {
     return {
       headers: {},
+      identity: "",
     };
   }
 
@@ -26,25 +73,78 @@ export class AuthProviders {
       headers: {
         Authorization: `Basic ${base64Credentials}`,
       },
+      identity: `basic:${credentials.username}`,
     };
   }
 
   static bearer(
     credentials: BearerAuthCredentials,
-    onRefresh?: (newToken: string) => void | Promise<void>
+    onRefresh?: (
+      newToken: string,
+      newRefreshToken?: string
+    ) => void | Promise<void>,
+    store?: TokenStore
   ): AuthResponse {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${credentials.token}`,
+    };
+    const applyToken = (token: StoredToken) => {
+      credentials.token = token.accessToken;
+      credentials.refreshToken = token.refreshToken || credentials.refreshToken;
+      headers.Authorization = `Bearer ${token.accessToken}`;
+    };
+
+    // Use the stored token, or seed the store with the one we were given
+    const load = async () => {
+      if (!store) return;
+      const stored = await store.get();
+      if (stored) {
+        applyToken(stored);
+      } else {
+        await store.set({
+          accessToken: credentials.token,
+          refreshToken: credentials.refreshToken,
+        });
+      }
+    };
+
+    // Shared by every request rejected while a new token is being obtained
+    let refreshing: Promise<void> | undefined;
+
+    const refreshToken = async () => {
+      const used = credentials.token;
+      await load();
+      if (credentials.token !== used) return;
+
+      const token = await credentials.getToken!(credentials.refreshToken);
+      applyToken(token);
+      await store?.set({
+        accessToken: credentials.token,
+        refreshToken: credentials.refreshToken,
+        expiresAt: token.expiresAt,
+      });
+      await onRefresh?.(credentials.token, credentials.refreshToken);
+    };
+
     return {
-      headers: {
-        Authorization: `Bearer ${credentials.token}`,
-      },
-      refresh: async () => {
-        if (credentials.refreshToken && onRefresh) {
-          // Here you would implement the refresh token logic
-          // const newToken = await refreshTokenRequest(credentials.refreshToken);
-          // await onRefresh(newToken);
-          // credentials.token = newToken;
-        }
+      headers,
+      get identity() {
+        return `bearer:${credentials.token}`;
       },
+      ...(store && { beforeRequest: load }),
+      ...(credentials.getToken && {
+        shouldRefresh: async (response) => response.status === 401,
+        refresh: () => {
+          refreshing =
+            refreshing ||
+            (store?.lock ? store.lock(refreshToken) : refreshToken()).finally(
+              () => {
+                refreshing = undefined;
+              }
+            );
+          return refreshing;
+        },
+      }),
     };
   }
 
@@ -53,48 +153,261 @@ export class AuthProviders {
       headers: {
         "X-API-Key": credentials.apiKey,
       },
+      identity: `apiKey:${credentials.apiKey}`,
     };
   }
 
   static hmac(credentials: HmacAuthCredentials): AuthResponse {
-    // Placeholder use until HMAC signing is implemented
-    void credentials;
     return {
       headers: {},
-      beforeRequest: async () => {
-        // Implement HMAC signature generation here
-        // const signature = generateHmacSignature(credentials.apiKey, credentials.secret);
-        // headers['X-Signature'] = signature;
-      },
+      // Signature headers are only added when the request is sent
+      identity: `hmac:${credentials.apiKey}`,
+      signRequest: createHmacSigner(credentials),
     };
   }
 
-  static nonce(credentials: NonceAuthCredentials): AuthResponse {
+  static nonce(
+    credentials: NonceAuthCredentials,
+    onRefresh?: (newNonce: string) => void | Promise<void>
+  ): AuthResponse {
+    const headers: Record<string, string> = {
+      "X-WP-Nonce": credentials.nonce,
+    };
+    const canRenew = () =>
+      Boolean(credentials.getNonce || credentials.nonceUrl);
+
+    // Shared by every request that hit the expired nonce at the same time
+    let renewing: Promise<void> | undefined;
+    // The 403 that triggered the renewal, reported if the renewal fails
+    let rejected: Response | undefined;
+
     return {
-      headers: {
-        "X-WP-Nonce": credentials.nonce,
+      headers,
+      get identity() {
+        return `nonce:${credentials.nonce}`;
+      },
+      // The nonce only authenticates together with the login cookie
+      credentials: "include",
+      shouldRefresh: async (response) => {
+        if (response.status !== 403 || !canRenew()) return false;
+        const error = await WPApiError.fromResponse(response.clone());
+        if (error.code !== NONCE_INVALID_CODE) return false;
+        rejected = response;
+        return true;
+      },
+      refresh: () => {
+        renewing =
+          renewing ||
+          fetchNonce(credentials)
+            .then(async (nonce) => {
+              credentials.nonce = nonce;
+              headers["X-WP-Nonce"] = nonce;
+              await onRefresh?.(nonce);
+            })
+            .catch((cause) => {
+              // Callers still get the auth error, with the renewal failure as its cause
+              throw new WPApiError(
+                "The REST nonce expired and could not be renewed",
+                rejected?.status ?? 403,
+                { code: NONCE_INVALID_CODE, response: rejected, cause }
+              );
+            })
+            .finally(() => {
+              renewing = undefined;
+            });
+        return renewing;
       },
     };
   }
 
   static oauth2(
     credentials: OAuth2Credentials,
-    onRefresh?: (newToken: string) => void | Promise<void>
+    onRefresh?: (
+      newToken: string,
+      newRefreshToken?: string
+    ) => void | Promise<void>,
+    store?: TokenStore
   ): AuthResponse {
-    return {
-      headers: credentials.accessToken
-        ? {
-            Authorization: `Bearer ${credentials.accessToken}`,
+    const headers: Record<string, string> = {};
+    const applyToken = () => {
+      if (credentials.accessToken) {
+        headers.Authorization = `Bearer ${credentials.accessToken}`;
+      }
+    };
+    applyToken();
+
+    // Adopt the stored token, which another tab, worker or process may have refreshed
+    const load = async () => {
+      if (!store) return;
+      const stored = await store.get();
+      if (stored) {
+        credentials.accessToken = stored.accessToken;
+        credentials.refreshToken =
+          stored.refreshToken || credentials.refreshToken;
+        credentials.expiresAt = stored.expiresAt;
+        applyToken();
+      } else if (credentials.accessToken) {
+        await store.set({
+          accessToken: credentials.accessToken,
+          refreshToken: credentials.refreshToken,
+          expiresAt: credentials.expiresAt,
+        });
+      }
+    };
+
+    // Shared by every request that needs a new token while it is in flight
+    let refreshing: Promise<void> | undefined;
+
+    const canRefresh = () =>
+      Boolean(credentials.refreshToken && credentials.tokenUrl);
+
+    const refreshToken = async () => {
+      const used = credentials.accessToken;
+      await load();
+      if (credentials.accessToken !== used) return;
+
+      const token = await refreshOAuth2Token({
+        tokenUrl: credentials.tokenUrl!,
+        clientId: credentials.clientId,
+        clientSecret: credentials.clientSecret,
+        refreshToken: credentials.refreshToken!,
+        scope: credentials.scope,
+        fetch: credentials.fetch,
+        timeout: credentials.timeout,
+      });
+      credentials.accessToken = token.accessToken;
+      credentials.refreshToken = token.refreshToken || credentials.refreshToken;
+      credentials.expiresAt = token.expiresAt;
+      applyToken();
+      await store?.set({
+        accessToken: token.accessToken,
+        refreshToken: credentials.refreshToken,
+        expiresAt: token.expiresAt,
+      });
+      await onRefresh?.(token.accessToken, credentials.refreshToken);
+    };
+
+    const refresh = (): Promise<void> => {
+      if (!canRefresh()) return Promise.resolve();
+
+      refreshing =
+        refreshing ||
+        (store?.lock ? store.lock(refreshToken) : refreshToken()).finally(
+          () => {
+            refreshing = undefined;
           }
-        : {},
-      refresh: async () => {
-        if (credentials.refreshToken && onRefresh) {
-          // Implement OAuth2 refresh token flow here
-          // const newToken = await refreshOAuth2Token(credentials);
-          // await onRefresh(newToken);
-          // credentials.accessToken = newToken;
+        );
+
+      return refreshing;
+    };
+
+    return {
+      headers,
+      get identity() {
+        return `oauth2:${credentials.accessToken ?? ""}`;
+      },
+      beforeRequest: async () => {
+        if (refreshing) return refreshing;
+        await load();
+
+        const { expiresAt } = credentials;
+        if (
+          expiresAt !== undefined &&
+          Date.now() >= expiresAt - TOKEN_EXPIRY_MARGIN_MS
+        ) {
+          await refresh();
+        }
+      },
+      shouldRefresh: async (response) =>
+        response.status === 401 && canRefresh(),
+      refresh,
+    };
+  }
+
+  static jwt(
+    credentials: JwtAuthCredentials,
+    onRefresh?: (newToken: string) => void | Promise<void>,
+    store?: TokenStore
+  ): AuthResponse {
+    const headers: Record<string, string> = {};
+    let expiresAt: number | undefined;
+    // A token we did not issue ourselves is checked once before use
+    let needsValidation = Boolean(credentials.jwt);
+
+    const applyToken = (token: string) => {
+      credentials.jwt = token;
+      expiresAt = getJwtExpiry(token);
+      headers.Authorization = `Bearer ${token}`;
+    };
+    if (credentials.jwt) applyToken(credentials.jwt);
+
+    // Shared by every request that needs a token while one is being obtained
+    let pending: Promise<void> | undefined;
+    const once = (task: () => Promise<void>) => {
+      pending =
+        pending ||
+        task().finally(() => {
+          pending = undefined;
+        });
+      return pending;
+    };
+
+    // Adopt a token stored by us or by another tab, worker or process
+    const load = async () => {
+      const stored = await store?.get();
+      if (!stored) return;
+      if (stored.accessToken !== credentials.jwt)
+        applyToken(stored.accessToken);
+      needsValidation = false;
+    };
+
+    const requestToken = async () => {
+      const used = credentials.jwt;
+      await load();
+      if (credentials.jwt !== used) return;
+
+      const token = await requestJwtToken(credentials);
+      applyToken(token);
+      needsValidation = false;
+      await store?.set({ accessToken: token, expiresAt });
+      await onRefresh?.(token);
+    };
+
+    const login = () =>
+      store?.lock ? store.lock(requestToken) : requestToken();
+
+    const prepare = async () => {
+      await load();
+      if (credentials.jwt && needsValidation) {
+        needsValidation = false;
+        if (await validateJwtToken(credentials, credentials.jwt)) {
+          await store?.set({ accessToken: credentials.jwt, expiresAt });
+          return;
         }
+        delete headers.Authorization;
+        credentials.jwt = undefined;
+      }
+      if (
+        !credentials.jwt ||
+        (expiresAt !== undefined &&
+          Date.now() >= expiresAt - TOKEN_EXPIRY_MARGIN_MS)
+      ) {
+        await login();
+      }
+    };
+
+    return {
+      headers,
+      get identity() {
+        return `jwt:${credentials.jwt ?? ""}`;
+      },
+      beforeRequest: () => once(prepare),
+      shouldRefresh: async (response) => {
+        if (response.status !== 401 && response.status !== 403) return false;
+        const error = await WPApiError.fromResponse(response.clone());
+        return error.code === JWT_INVALID_TOKEN_CODE;
       },
+      refresh: () => once(login),
     };
   }
 }
@@ -0,0 +1,49 @@
+import { AuthTransportOptions } from "./types";
+import {
+  WPParseError,
+  WPTimeoutError,
+  toRequestError,
+} from "../api/wordpress/errors";
+import { parseJsonResponse } from "../api/wordpress/http";
+
+/**
+ * Send a request of a provider itself (token endpoint, login, nonce renewal) through
+ * the configured transport. Failures become WPNetworkError, WPTimeoutError or WPAbortError.
+ */
+export async function sendAuthRequest(
+  url: string,
+  init: RequestInit,
+  options: AuthTransportOptions = {}
+): Promise<Response> {
+  const { fetch: fetchImpl = fetch, timeout } = options;
+  const controller = timeout ? new AbortController() : undefined;
+  const timer =
+    timeout &&
+    setTimeout(() => controller!.abort(new WPTimeoutError(timeout)), timeout);
+
+  try {
+    return await fetchImpl(url, { ...init, signal: controller?.signal });
+  } catch (error) {
+    throw toRequestError(error, controller?.signal);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Read a value (token, access_token, ...) from a provider's JSON response
+ * @param pick Returns the value, or undefined when the response does not carry it
+ * @param missing Error message used when `pick` finds nothing
+ * @throws WPParseError with a body snippet when the body is not JSON or lacks the value
+ */
+export async function readAuthResponse<T>(
+  response: Response,
+  pick: (data: any) => T | undefined,
+  missing: string
+): Promise<T> {
+  const value = pick(await parseJsonResponse<any>(response.clone()));
+  if (!value) {
+    throw WPParseError.fromBody(missing, response, await response.text());
+  }
+  return value;
+}
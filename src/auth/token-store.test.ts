@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from "vitest";
+import { jsonResponse, mockGlobalFetch } from "../../tests/helpers";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { createAuth } from "./index";
+import {
+  createFileTokenStore,
+  createMemoryTokenStore,
+  createWebStorageTokenStore,
+} from "./token-store";
+import type { TokenStore } from "./types";
+
+const TOKEN_URL = "https://example.com/oauth/token";
+
+// Minimal Storage backed by a Map, like localStorage in a browser
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, value),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+};
+
+const oauth2 = (tokenStore: TokenStore) =>
+  createAuth({
+    method: "oauth2",
+    credentials: { clientId: "my-app", tokenUrl: TOKEN_URL },
+    tokenStore,
+  });
+
+describe("Token stores", () => {
+  mockGlobalFetch();
+
+  it("should restore tokens saved by a previous page load", async () => {
+    const storage = createStorage();
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ access_token: "fresh", expires_in: 3600 })
+    );
+
+    const first = createAuth({
+      method: "oauth2",
+      credentials: {
+        clientId: "my-app",
+        tokenUrl: TOKEN_URL,
+        accessToken: "old",
+        refreshToken: "r1",
+      },
+      tokenStore: createWebStorageTokenStore(storage),
+    });
+    await first.refresh!();
+
+    expect(JSON.parse(storage.getItem("wpjs-api:token")!)).toMatchObject({
+      accessToken: "fresh",
+      refreshToken: "r1",
+    });
+
+    const reloaded = oauth2(createWebStorageTokenStore(storage));
+    await reloaded.beforeRequest!();
+
+    expect((reloaded.headers as Record<string, string>).Authorization).toBe(
+      "Bearer fresh"
+    );
+  });
+
+  it("should share a refresh between clients using the same store", async () => {
+    const tokenStore = createMemoryTokenStore({
+      accessToken: "old",
+      refreshToken: "r1",
+    });
+    (global.fetch as any).mockResolvedValue(
+      jsonResponse({ access_token: "fresh", refresh_token: "r2" })
+    );
+    const tabA = oauth2(tokenStore);
+    const tabB = oauth2(tokenStore);
+    await tabA.beforeRequest!();
+    await tabB.beforeRequest!();
+
+    // Both got a 401 with the old token
+    await tabA.refresh!();
+    await tabB.refresh!();
+
+    expect(global.fetch).toHaveBeenCalledOnce();
+    expect((tabB.headers as Record<string, string>).Authorization).toBe(
+      "Bearer fresh"
+    );
+    expect(await tokenStore.get()).toEqual({
+      accessToken: "fresh",
+      refreshToken: "r2",
+      expiresAt: undefined,
+    });
+  });
+
+  it("should seed the store with a bearer token and read it back", async () => {
+    const tokenStore = createMemoryTokenStore();
+    const auth = createAuth({
+      method: "bearer",
+      credentials: { token: "abc" },
+      tokenStore,
+    });
+
+    await auth.beforeRequest!();
+    expect(await tokenStore.get()).toEqual({
+      accessToken: "abc",
+      refreshToken: undefined,
+    });
+
+    await tokenStore.set({ accessToken: "def" });
+    await auth.beforeRequest!();
+    expect((auth.headers as Record<string, string>).Authorization).toBe(
+      "Bearer def"
+    );
+  });
+
+  it("should write refreshed bearer tokens through the store", async () => {
+    const tokenStore = createMemoryTokenStore({
+      accessToken: "old",
+      refreshToken: "r1",
+    });
+    const getToken = vi.fn(async () => ({
+      accessToken: "fresh",
+      refreshToken: "r2",
+    }));
+    const onTokenRefresh = vi.fn();
+    const tabA = createAuth({
+      method: "bearer",
+      credentials: { token: "old", getToken },
+      onTokenRefresh,
+      tokenStore,
+    });
+    const tabB = createAuth({
+      method: "bearer",
+      credentials: { token: "old", getToken },
+      tokenStore,
+    });
+    await tabA.beforeRequest!();
+    await tabB.beforeRequest!();
+
+    // Both got a 401 with the old token
+    expect(await tabA.shouldRefresh!(new Response(null, { status: 401 }))).toBe(
+      true
+    );
+    await tabA.refresh!();
+    await tabB.refresh!();
+
+    expect(getToken).toHaveBeenCalledOnce();
+    expect(getToken).toHaveBeenCalledWith("r1");
+    expect(onTokenRefresh).toHaveBeenCalledWith("fresh", "r2");
+    expect((tabB.headers as Record<string, string>).Authorization).toBe(
+      "Bearer fresh"
+    );
+    expect(await tokenStore.get()).toEqual({
+      accessToken: "fresh",
+      refreshToken: "r2",
+      expiresAt: undefined,
+    });
+  });
+
+  it("should keep tokens in a private file", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "wpjs-token-"));
+    const file = path.join(dir, "token.json");
+    const tokenStore = createFileTokenStore(file, fs);
+
+    try {
+      expect(await tokenStore.get()).toBeUndefined();
+
+      await tokenStore.set({ accessToken: "abc", expiresAt: 1000 });
+      expect(await createFileTokenStore(file, fs).get()).toEqual({
+        accessToken: "abc",
+        expiresAt: 1000,
+      });
+      expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+
+      await tokenStore.clear();
+      await tokenStore.clear();
+      expect(await tokenStore.get()).toBeUndefined();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,87 @@
+import { StoredToken, TokenStore, TokenStoreFileSystem } from "./types";
+
+/**
+ * Key used by web storage token stores when none is given
+ */
+const DEFAULT_TOKEN_KEY = "wpjs-api:token";
+
+/**
+ * Keep the token in memory, for a single page or process
+ * @param initial Optional token to start with
+ */
+export function createMemoryTokenStore(initial?: StoredToken): TokenStore {
+  let token = initial;
+
+  return {
+    get: () => token,
+    set: (next) => {
+      token = next;
+    },
+    clear: () => {
+      token = undefined;
+    },
+  };
+}
+
+/**
+ * Keep the token in `localStorage` (shared by every tab) or `sessionStorage`.
+ * Refreshes are serialized across tabs with the Web Locks API where available.
+ * @param storage The storage to use. Default: localStorage
+ * @param key Storage key. Default: "wpjs-api:token"
+ * @example
+ * const auth = createAuth({
+ *   method: "oauth2",
+ *   credentials: { clientId, tokenUrl },
+ *   tokenStore: createWebStorageTokenStore(),
+ * });
+ */
+export function createWebStorageTokenStore(
+  storage: Storage = localStorage,
+  key: string = DEFAULT_TOKEN_KEY
+): TokenStore {
+  return {
+    get: () => {
+      const value = storage.getItem(key);
+      if (!value) return undefined;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return undefined;
+      }
+    },
+    set: (token) => storage.setItem(key, JSON.stringify(token)),
+    clear: () => storage.removeItem(key),
+    lock: (task) =>
+      typeof navigator !== "undefined" && navigator.locks
+        ? navigator.locks.request(key, task)
+        : task(),
+  };
+}
+
+/**
+ * Keep the token in a JSON file (readable by the owner only), so it survives process restarts
+ * @param path File path
+ * @param fs `node:fs/promises`, passed in so browser bundles never import it
+ * @example
+ * import fs from "node:fs/promises";
+ *
+ * const tokenStore = createFileTokenStore(".wp-token.json", fs);
+ */
+export function createFileTokenStore(
+  path: string,
+  fs: TokenStoreFileSystem
+): TokenStore {
+  return {
+    get: async () => {
+      try {
+        return JSON.parse(await fs.readFile(path, "utf8"));
+      } catch {
+        return undefined;
+      }
+    },
+    set: (token) => fs.writeFile(path, JSON.stringify(token), { mode: 0o600 }),
+    clear: async () => {
+      await fs.unlink(path).catch(() => undefined);
+    },
+  };
+}
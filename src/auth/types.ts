@@ -1,3 +1,5 @@
+import type { WPFetch } from "../api/wordpress/types";
+
 /**
  * Available authentication methods
  */
@@ -8,7 +10,8 @@ export type AuthMethod =
   | "bearer"
   | "apiKey"
   | "hmac"
-  | "oauth2";
+  | "oauth2"
+  | "jwt";
 
 /**
  * Basic authentication credentials
@@ -24,6 +27,11 @@ export interface BasicAuthCredentials {
 export interface BearerAuthCredentials {
   token: string;
   refreshToken?: string;
+  /**
+   * Get a new token after a 401, e.g. from your own token endpoint.
+   * Without it the provider never refreshes.
+   */
+  getToken?: (refreshToken?: string) => StoredToken | Promise<StoredToken>;
 }
 
 /**
@@ -37,26 +45,239 @@ export interface ApiKeyAuthCredentials {
  * HMAC authentication credentials
  */
 export interface HmacAuthCredentials {
+  /**
+   * Key ID sent alongside the signature
+   */
   apiKey: string;
   secret: string;
+  /**
+   * Header names for the signature, key ID and timestamp.
+   * Default: X-Signature, X-Key-Id and X-Timestamp
+   */
+  headers?: Partial<HmacHeaderNames>;
+  /**
+   * Build the string to sign. Default: `buildHmacCanonicalString`
+   */
+  canonicalize?: (request: HmacCanonicalRequest) => string;
+  /**
+   * Signature encoding. Default: "hex"
+   */
+  encoding?: "hex" | "base64";
+}
+
+/**
+ * Header names used by the HMAC signer
+ */
+export interface HmacHeaderNames {
+  signature: string;
+  keyId: string;
+  timestamp: string;
+}
+
+/**
+ * Parts of a request covered by the HMAC signature
+ */
+export interface HmacCanonicalRequest {
+  /**
+   * Upper-case HTTP method
+   */
+  method: string;
+  /**
+   * URL path, without query string
+   */
+  path: string;
+  /**
+   * Query parameters sorted by name then value, encoded as `a=1&b=2`
+   */
+  query: string;
+  /**
+   * Hex SHA-256 of the request body (of an empty body when there is none)
+   */
+  bodyHash: string;
+  /**
+   * Unix timestamp in seconds, also sent in the timestamp header
+   */
+  timestamp: string;
 }
 
 /**
  * Nonce authentication credentials
  */
-export interface NonceAuthCredentials {
+export interface NonceAuthCredentials extends AuthTransportOptions {
   nonce: string;
+  /**
+   * URL that returns a fresh nonce as plain text, requested with cookies
+   * (e.g., https://example.com/wp-admin/admin-ajax.php?action=rest-nonce)
+   */
+  nonceUrl?: string;
+  /**
+   * Return a fresh nonce; takes precedence over `nonceUrl`
+   */
+  getNonce?: () => string | Promise<string>;
+}
+
+/**
+ * How providers send their own requests (token endpoint, login, nonce renewal)
+ */
+export interface AuthTransportOptions {
+  /**
+   * fetch implementation. Default: the global fetch
+   */
+  fetch?: WPFetch;
+  /**
+   * Milliseconds before the request fails with a WPTimeoutError
+   */
+  timeout?: number;
 }
 
 /**
  * OAuth2 authentication credentials
  */
-export interface OAuth2Credentials {
+export interface OAuth2Credentials extends AuthTransportOptions {
   clientId: string;
-  clientSecret: string;
+  /**
+   * Omit for public clients (SPAs, mobile apps) that rely on PKCE
+   */
+  clientSecret?: string;
   accessToken?: string;
   refreshToken?: string;
   scope?: string[];
+  /**
+   * Token endpoint used for the refresh_token grant
+   */
+  tokenUrl?: string;
+  /**
+   * When the access token expires (ms since epoch); it is refreshed shortly before
+   */
+  expiresAt?: number;
+}
+
+/**
+ * JWT authentication credentials ("JWT Authentication for WP REST API" or "Simple JWT Login")
+ */
+export interface JwtAuthCredentials extends AuthTransportOptions {
+  /**
+   * WordPress REST base URL (e.g., https://example.com/wp-json)
+   */
+  baseUrl: string;
+  username: string;
+  password: string;
+  /**
+   * Login route. Default: "/jwt-auth/v1/token"; use "/simple-jwt-login/v1/auth" for Simple JWT Login
+   */
+  route?: string;
+  /**
+   * Token validation route. Default: `${route}/validate`
+   */
+  validateRoute?: string;
+  /**
+   * Previously issued token (e.g., restored from storage); validated before its first use
+   */
+  jwt?: string;
+}
+
+/**
+ * Tokens issued by an OAuth2 token endpoint
+ */
+export interface OAuth2Token {
+  accessToken: string;
+  refreshToken?: string;
+  /**
+   * When the access token expires (ms since epoch), from `expires_in`
+   */
+  expiresAt?: number;
+  scope?: string[];
+  tokenType?: string;
+}
+
+/**
+ * PKCE code verifier and its S256 challenge
+ */
+export interface OAuth2PkcePair {
+  codeVerifier: string;
+  codeChallenge: string;
+}
+
+/**
+ * Parameters of the authorization-code request
+ */
+export interface OAuth2AuthorizationParams {
+  clientId: string;
+  redirectUri: string;
+  /**
+   * PKCE challenge from `createPkcePair()`
+   */
+  codeChallenge: string;
+  scope?: string[];
+  /**
+   * Opaque value echoed back to the redirect URI, to protect against CSRF
+   */
+  state?: string;
+}
+
+/**
+ * Parameters to exchange an authorization code for tokens
+ */
+export interface OAuth2CodeExchangeParams extends AuthTransportOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  code: string;
+  redirectUri: string;
+  /**
+   * PKCE verifier the challenge was created from
+   */
+  codeVerifier: string;
+}
+
+/**
+ * Parameters of the refresh_token grant
+ */
+export interface OAuth2RefreshParams extends AuthTransportOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret?: string;
+  refreshToken: string;
+  scope?: string[];
+}
+
+/**
+ * Token persisted by a TokenStore
+ */
+export interface StoredToken {
+  accessToken: string;
+  refreshToken?: string;
+  /**
+   * When the access token expires (ms since epoch)
+   */
+  expiresAt?: number;
+}
+
+/**
+ * Where bearer, OAuth2 and JWT providers keep their tokens, so they survive reloads
+ * and restarts and can be shared between tabs, workers or processes
+ */
+export interface TokenStore {
+  get(): StoredToken | undefined | Promise<StoredToken | undefined>;
+  set(token: StoredToken): void | Promise<void>;
+  clear(): void | Promise<void>;
+  /**
+   * Run a token refresh exclusively across everything sharing the store
+   */
+  lock?<T>(task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * The parts of `node:fs/promises` used by `createFileTokenStore`
+ */
+export interface TokenStoreFileSystem {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(
+    path: string,
+    data: string,
+    options: { mode: number }
+  ): Promise<void>;
+  unlink(path: string): Promise<void>;
 }
 
 /**
@@ -70,8 +291,29 @@ export interface AuthConfig {
     | ApiKeyAuthCredentials
     | HmacAuthCredentials
     | NonceAuthCredentials
-    | OAuth2Credentials;
-  onTokenRefresh?: (newToken: string) => void | Promise<void>;
+    | OAuth2Credentials
+    | JwtAuthCredentials;
+  onTokenRefresh?: (
+    newToken: string,
+    newRefreshToken?: string
+  ) => void | Promise<void>;
+  /**
+   * Persist bearer, OAuth2 and JWT tokens. The stored token takes precedence over the credentials.
+   */
+  tokenStore?: TokenStore;
+}
+
+/**
+ * Outgoing request as seen by `AuthResponse.signRequest`
+ */
+export interface AuthRequest {
+  url: string;
+  method: string;
+  /**
+   * Mutable: headers added here are sent with the request
+   */
+  headers: Record<string, string>;
+  body?: BodyInit | null;
 }
 
 /**
@@ -79,8 +321,59 @@ export interface AuthConfig {
  */
 export interface AuthResponse {
   headers: HeadersInit;
+  /**
+   * Who requests are made as (key ID, current token, ...), hashed into response cache and
+   * deduplication keys so different credentials never share responses. Define it as a getter
+   * when it changes (e.g. on token refresh). An empty string marks anonymous requests.
+   */
+  identity?: string;
+  /**
+   * Fetch credentials mode, e.g. "include" to send cookies cross-origin
+   */
+  credentials?: RequestCredentials;
   beforeRequest?: () => Promise<void>;
+  /**
+   * Runs right before each request is sent, after middleware, and may add headers to it
+   */
+  signRequest?: (request: AuthRequest) => void | Promise<void>;
   afterRequest?: (response: Response) => Promise<Response>;
   shouldRefresh?: (response: Response) => Promise<boolean>;
   refresh?: () => Promise<void>;
+  /**
+   * How many times a single request may call refresh() and retry. Default: 1
+   */
+  refreshLimit?: number;
+}
+
+/**
+ * Parameters of the Application Passwords authorization screen
+ * (`wp-admin/authorize-application.php`)
+ */
+export interface ApplicationPasswordAuthorizationParams {
+  /**
+   * Application name shown to the user and used as the password name
+   */
+  appName: string;
+  /**
+   * UUID identifying the application
+   */
+  appId?: string;
+  /**
+   * URL the user is sent to after approving, with the credentials in the query
+   */
+  successUrl?: string;
+  /**
+   * URL the user is sent to after rejecting
+   */
+  rejectUrl?: string;
+}
+
+/**
+ * Credentials returned by the Application Passwords authorization flow
+ */
+export interface ApplicationPasswordCredentials extends BasicAuthCredentials {
+  /**
+   * URL of the site that issued the password
+   */
+  siteUrl: string;
 }
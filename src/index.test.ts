@@ -1,8 +1,9 @@
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi } from "vitest";
 import { createPostsEndpoints } from "./api/wordpress/posts";
 import { createPageEndpoints } from "./api/wordpress/pages";
 import { createMediaEndpoints } from "./api/wordpress/media";
 import { WPApiError } from "./api/wordpress/errors";
+import { createWordPressClient } from "./api/client";
 
 describe("API Endpoints Integration", () => {
   const baseUrl = "https://example.com";
@@ -48,6 +49,107 @@ describe("API Endpoints Integration", () => {
     });
   });
 
+  describe("createWordPressClient", () => {
+    it("should wire every namespace from one config", () => {
+      const wp = createWordPressClient({ baseUrl });
+
+      expect(wp.posts.list).toBeTypeOf("function");
+      expect(wp.pages.get).toBeTypeOf("function");
+      expect(wp.menus.items.list).toBeTypeOf("function");
+      expect(wp.postTypes.list).toBeTypeOf("function");
+      expect(wp.plugins.yoast.head).toBeTypeOf("function");
+      expect(wp.config.baseUrl).toBe(baseUrl);
+    });
+
+    it("should build custom plugin namespaces with the shared config", () => {
+      const wp = createWordPressClient({
+        baseUrl,
+        plugins: {
+          acf: (config) => ({ baseUrl: config.baseUrl }),
+        },
+      });
+
+      expect(wp.plugins.acf.baseUrl).toBe(baseUrl);
+    });
+
+    it("should send every request through a custom fetch", async () => {
+      const transport = vi.fn(
+        async (_url: string, _init: RequestInit) => new Response("{}")
+      );
+      const wp = createWordPressClient({
+        baseUrl: "https://example.com/wp-json",
+        fetch: transport,
+      });
+
+      await wp.posts.get(1);
+      await wp.media.create({ file: new Blob(["image"]), title: "Upload" });
+      await wp.plugins.yoast.sitemapIndex();
+
+      expect(transport.mock.calls.map(([url]) => url)).toEqual([
+        "https://example.com/wp-json/wp/v2/posts/1",
+        "https://example.com/wp-json/wp/v2/media",
+        "https://example.com/sitemap_index.xml",
+      ]);
+    });
+
+    it("should keep query defaults off routes that are not post-like", async () => {
+      const transport = vi.fn(async (url: string) =>
+        url.includes("/autosaves") ? Response.json([]) : Response.json({})
+      );
+      const wp = createWordPressClient({
+        baseUrl: "https://example.com/wp-json",
+        fetch: transport,
+        defaults: { context: "edit", _fields: ["id", "title"] },
+      });
+
+      await wp.settings.get();
+      await wp.plugins.yoast.head({ url: "https://example.com/" });
+      await wp.posts.getNewerAutosave(1);
+      await wp.users.applicationPasswords.introspect();
+      await wp.links.follow(
+        {
+          _links: {
+            author: [{ href: "https://example.com/wp-json/wp/v2/users/1" }],
+          },
+        },
+        "author"
+      );
+
+      const urls = transport.mock.calls.map(([url]) => url);
+      expect(urls).toHaveLength(6);
+      for (const url of urls) {
+        expect(url).not.toContain("_fields=id%2Ctitle");
+      }
+      expect(urls).toContain("https://example.com/wp-json/wp/v2/settings");
+      expect(urls).toContain(
+        "https://example.com/wp-json/wp/v2/posts/1/autosaves?context=edit"
+      );
+      expect(urls).toContain("https://example.com/wp-json/wp/v2/users/1");
+    });
+
+    it("should reject sitemap error pages", async () => {
+      const transport = vi.fn(
+        async () => new Response("<html>Not found</html>", { status: 404 })
+      );
+      const wp = createWordPressClient({
+        baseUrl: "https://example.com/wp-json",
+        fetch: transport,
+        defaults: { context: "edit" },
+      });
+
+      const error = await wp.plugins.yoast
+        .sitemap("post-sitemap.xml")
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(WPApiError);
+      expect(error.status).toBe(404);
+      expect(transport).toHaveBeenCalledWith(
+        "https://example.com/post-sitemap.xml",
+        expect.anything()
+      );
+    });
+  });
+
   describe("WPApiError", () => {
     it("should be exported and usable", () => {
       const error = new WPApiError("Test error", 404);
@@ -79,6 +181,25 @@ describe("API Endpoints Integration", () => {
       expect(buildResourcePath).toBeTypeOf("function");
     });
 
+    it("should keep retry and deduplication internals private", async () => {
+      const api: Record<string, unknown> = await import("./index");
+
+      expect(api.parseRetryAfter).toBeTypeOf("function");
+      expect(api.getInFlightRequestCount).toBeTypeOf("function");
+      for (const name of [
+        "sleep",
+        "getAbortReason",
+        "isAbortError",
+        "getRetryDelay",
+        "resolveRetryPolicy",
+        "isIdempotentRequest",
+        "getInFlightRequests",
+        "dedupeRequest",
+      ]) {
+        expect(api[name]).toBeUndefined();
+      }
+    });
+
     it("should export all endpoint creators", async () => {
       const {
         createPostsEndpoints,
@@ -0,0 +1,28 @@
+import { vi, beforeEach, afterEach } from "vitest";
+
+/**
+ * JSON response as WordPress sends it. 204 and 304 responses have no body.
+ */
+export const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+) =>
+  new Response(status === 204 || status === 304 ? null : JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+/**
+ * Replace the global fetch with a fresh `vi.fn()` before each test of the
+ * enclosing `describe`, and restore mocks afterwards
+ */
+export function mockGlobalFetch(): void {
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+}